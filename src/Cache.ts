@@ -1,51 +1,489 @@
+import { realClock, type Clock, type ClockOptions, type ClockTimer } from "./Clock.js";
+
+export type CacheKey = string | number;
+
+/**
+ * Which entry gets evicted when the cache is over capacity.
+ * - `lru`: The least recently read or written entry
+ * - `lfu`: The least frequently read entry (oldest first on ties)
+ * - `fifo`: The oldest inserted entry
+ */
+export type CacheEvictionPolicy = "lru" | "lfu" | "fifo";
+
+/** Why an entry left the cache. */
+export type CacheEvictionReason = "expired" | "evicted" | "deleted";
+
+export interface CacheOptions<T> extends ClockOptions {
+    /** The maximum number of entries to keep. */
+    maxSize?: number;
+    /** The maximum combined weight of all entries, as measured by `sizeOf`. */
+    maxWeight?: number;
+    /** Estimates the weight of an entry, e.g. its size in bytes. [default: 1 per entry] */
+    sizeOf?: (value: T, key: CacheKey) => number;
+    /** The eviction policy used when the cache is over capacity. [default: "lru"] */
+    policy?: CacheEvictionPolicy;
+    /** Called whenever an entry leaves the cache. */
+    onEvict?: (key: CacheKey, value: T, reason: CacheEvictionReason) => void;
+}
+
+export interface CacheSetOptions {
+    /** The time to live in milliseconds. */
+    ttl?: number;
+    /** Tags to group the entry by, for use with `invalidateTag`. */
+    tags?: string[];
+}
+
+export interface CacheLoadOptions extends CacheSetOptions {
+    /** How long a loaded value stays fresh in milliseconds. */
+    ttl?: number;
+    /**
+     * How long after `ttl` a stale value may still be served while it's refreshed in the background.
+     * Regular reads keep returning the value until this window ends as well.
+     */
+    staleTtl?: number;
+}
+
+export interface CacheStats {
+    /** Reads that found a live entry. */
+    hits: number;
+    /** Reads that found nothing or an expired entry. */
+    misses: number;
+    /** Entries removed to stay within capacity. */
+    evictions: number;
+    /** Entries removed because their TTL ran out. */
+    expirations: number;
+    /** The number of entries currently stored. */
+    size: number;
+}
+
+type CacheEntry<T> = {
+    key: CacheKey;
+    storeKey: CacheKey;
+    namespace: string;
+    value: T;
+    ttl: number | null;
+    staleTtl: number;
+    expiresAt: number | null;
+    weight: number;
+    hits: number;
+    tags: string[] | null;
+};
+
+/** A loader call in flight. Removing its key drops it from `loading`, so its result isn't written. */
+type PendingLoad<T> = {
+    promise: Promise<T>;
+    namespace: string;
+    tags: string[] | null;
+};
+
+/** State shared between a cache and all of its namespaces. */
+type CacheStore<T> = {
+    entries: Map<CacheKey, CacheEntry<T>>;
+    tags: Map<string, Set<CacheKey>>;
+    loading: Map<CacheKey, PendingLoad<T>>;
+    options: CacheOptions<T>;
+    counters: { hits: number; misses: number; evictions: number; expirations: number };
+    totalWeight: number;
+    interval: ClockTimer | null;
+    clock: Clock;
+};
+
 export class Cache<T> {
-    private cache = new Map<string | number, { value: T; expiresAt: number | null }>();
-    private interval: any;
+    private store: CacheStore<T>;
+    private scope: string;
 
     /**
      * A lightweight, high-performant in-memory cache.
      * Uses Map for O(1) lookups and an optional cleanup interval.
      * @param cleanupMs The interval in milliseconds to run the cleanup function. [default: 60000 (1 minute)]
+     * @param options Capacity and eviction options
+     * @example
+     * // Keep at most 1,000 users, evicting the least recently used
+     * const users = new Cache<User>(60_000, { maxSize: 1000, policy: "lru" });
+     * @example
+     * // Cap the cache at ~5MB of strings
+     * const pages = new Cache<string>(60_000, { maxWeight: 5_000_000, sizeOf: html => html.length * 2 });
      */
-    constructor(cleanupMs: number = 60_000) {
+    constructor(cleanupMs: number = 60_000, options: CacheOptions<T> = {}) {
+        this.scope = "";
+        this.store = {
+            entries: new Map(),
+            tags: new Map(),
+            loading: new Map(),
+            options,
+            counters: { hits: 0, misses: 0, evictions: 0, expirations: 0 },
+            totalWeight: 0,
+            interval: null,
+            clock: options.clock ?? realClock
+        };
+
         // Only run cleanup if the interval is positive
         if (cleanupMs > 0) {
-            this.interval = setInterval(() => this.cleanup(), cleanupMs);
+            this.store.interval = this.store.clock.setInterval(() => this.cleanup(), cleanupMs);
             // In Node.js, allow the process to exit even if this interval is running
-            if (this.interval.unref) this.interval.unref();
+            this.store.clock.unref?.(this.store.interval);
+        }
+    }
+
+    /**
+     * Stores a value in the cache. A load in flight for the key is still returned to its callers, but isn't cached.
+     * @param key The key to store the value under
+     * @param value The value to store
+     * @param options The TTL in milliseconds, or an options object with `ttl` and `tags`
+     * @example
+     * cache.set("member:1", member, { ttl: 60_000, tags: ["guild:123"] });
+     */
+    set(key: CacheKey, value: T, options?: number | CacheSetOptions): void {
+        const { ttl, tags } = typeof options === "number" ? { ttl: options, tags: undefined } : (options ?? {});
+        // A load in flight for the key would overwrite this with an older value
+        this.store.loading.delete(this.storeKey(key));
+        this.write(key, value, ttl, 0, tags);
+    }
+
+    get(key: CacheKey): T | null {
+        const data = this.getLive(key);
+        if (!data) {
+            this.store.counters.misses++;
+            return null;
+        }
+
+        this.markRead(data);
+        return data.value;
+    }
+
+    /**
+     * Reads a value, calling the loader to fetch and cache it on a miss.
+     *
+     * Concurrent misses for the same key share a single loader call, and loader errors are never cached.
+     * Once a value is past its `ttl` but still within `staleTtl`, it's returned immediately while a refresh runs in the background.
+     * @param key The key to read
+     * @param loader Fetches the value for the key
+     * @param options Freshness options for the loaded value
+     * @example
+     * const user = await users.getOrLoad(id, id => api.fetchUser(id), { ttl: 60_000, staleTtl: 300_000 });
+     */
+    async getOrLoad(key: CacheKey, loader: (key: CacheKey) => Promise<T> | T, options: CacheLoadOptions = {}): Promise<T> {
+        const data = this.getLive(key);
+        if (!data) {
+            this.store.counters.misses++;
+            return this.load(key, loader, options);
+        }
+
+        this.markRead(data);
+        if (this.isStale(data, this.store.clock.now())) {
+            // A failed background refresh keeps serving the stale value until it expires
+            this.load(key, loader, options).catch(() => {});
+        }
+        return data.value;
+    }
+
+    /** Checks if a key exists and hasn't expired, without counting as a read. */
+    has(key: CacheKey): boolean {
+        return this.getLive(key) !== null;
+    }
+
+    /**
+     * Reads a value without touching its recency, frequency or expiry.
+     * @param key The key to read
+     */
+    peek(key: CacheKey): T | null {
+        const data = this.store.entries.get(this.storeKey(key));
+        if (!data || this.isExpired(data, this.store.clock.now())) return null;
+        return data.value;
+    }
+
+    /**
+     * Removes an entry from the cache. A load in flight for the key is still returned to its callers, but isn't cached.
+     * @param key The key to remove
+     * @returns Whether the key existed
+     */
+    delete(key: CacheKey): boolean {
+        const storeKey = this.storeKey(key);
+        this.store.loading.delete(storeKey);
+
+        const data = this.store.entries.get(storeKey);
+        if (!data) return false;
+        this.remove(data, "deleted");
+        return true;
+    }
+
+    /**
+     * Extends the expiry of an entry.
+     * @param key The key to touch
+     * @param ttlMs The new TTL in milliseconds. Defaults to the TTL the entry was set with
+     * @returns Whether the key exists
+     */
+    touch(key: CacheKey, ttlMs?: number): boolean {
+        const data = this.getLive(key);
+        if (!data) return false;
+
+        if (ttlMs !== undefined) data.ttl = ttlMs ? ttlMs + data.staleTtl : null;
+        data.expiresAt = data.ttl ? this.store.clock.now() + data.ttl : null;
+        return true;
+    }
+
+    /**
+     * Returns the remaining time to live of an entry in milliseconds.
+     * @param key The key to inspect
+     * @returns `Infinity` if the entry never expires, or `null` if it doesn't exist
+     */
+    ttl(key: CacheKey): number | null {
+        const data = this.getLive(key);
+        if (!data) return null;
+        return data.expiresAt ? data.expiresAt - this.store.clock.now() : Infinity;
+    }
+
+    /**
+     * Removes every entry with the given tag from this cache and its namespaces.
+     * Loads in flight with the tag are still returned to their callers, but aren't cached.
+     * @param tag The tag to invalidate
+     * @returns The number of entries removed
+     */
+    invalidateTag(tag: string): number {
+        for (const [storeKey, load] of this.store.loading) {
+            if (load.tags?.includes(tag) && this.inScope(load)) this.store.loading.delete(storeKey);
+        }
+
+        const storeKeys = this.store.tags.get(tag);
+        if (!storeKeys) return 0;
+
+        let removed = 0;
+        for (const storeKey of [...storeKeys]) {
+            const data = this.store.entries.get(storeKey);
+            if (data && this.inScope(data)) {
+                this.remove(data, "deleted");
+                removed++;
+            }
         }
+        return removed;
+    }
+
+    /**
+     * Creates a child view with its own isolated keys.
+     *
+     * Namespaces share the parent's storage, capacity, cleanup interval and stats.
+     * Clearing or invalidating a tag on the parent also affects its namespaces.
+     * @param name The name of the namespace
+     * @example
+     * const users = cache.namespace("users");
+     * users.set(1, user); // Doesn't collide with cache.set(1, ...)
+     * users.clear(); // Only clears users
+     */
+    namespace(name: string): Cache<T> {
+        const child: Cache<T> = Object.create(Cache.prototype);
+        child.store = this.store;
+        child.scope = this.scope ? `${this.scope}\0${name}` : name;
+        return child;
+    }
+
+    /** The number of entries that haven't expired. */
+    get size(): number {
+        let count = 0;
+        const now = this.store.clock.now();
+        for (const data of this.store.entries.values()) {
+            if (data.namespace === this.scope && !this.isExpired(data, now)) count++;
+        }
+        return count;
+    }
+
+    /** Iterates over the keys of entries that haven't expired. */
+    *keys(): IterableIterator<CacheKey> {
+        for (const [key] of this.entries()) yield key;
+    }
+
+    /** Iterates over the values of entries that haven't expired. */
+    *values(): IterableIterator<T> {
+        for (const [, value] of this.entries()) yield value;
+    }
+
+    /** Iterates over the entries that haven't expired. */
+    *entries(): IterableIterator<[CacheKey, T]> {
+        const now = this.store.clock.now();
+        for (const data of this.store.entries.values()) {
+            if (data.namespace === this.scope && !this.isExpired(data, now)) yield [data.key, data.value];
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<[CacheKey, T]> {
+        return this.entries();
     }
 
-    set(key: string | number, value: T, ttlMs?: number): void {
-        this.cache.set(key, {
+    /** Returns hit, miss, eviction and expiration counters since the cache was created. */
+    stats(): CacheStats {
+        return { ...this.store.counters, size: this.size };
+    }
+
+    /** Maps a key to its key in the shared store, keeping namespaces from colliding. */
+    private storeKey(key: CacheKey): CacheKey {
+        if (!this.scope) return key;
+        return `${this.scope}\0${typeof key === "number" ? "n" : "s"}${key}`;
+    }
+
+    /** Whether an entry belongs to this namespace or one nested within it. */
+    private inScope(data: { namespace: string }): boolean {
+        if (!this.scope) return true;
+        return data.namespace === this.scope || data.namespace.startsWith(`${this.scope}\0`);
+    }
+
+    private write(key: CacheKey, value: T, ttlMs: number | undefined, staleTtlMs: number, tags: string[] | undefined): void {
+        const { entries, options } = this.store;
+        const storeKey = this.storeKey(key);
+
+        const existing = entries.get(storeKey);
+        if (existing) {
+            this.store.totalWeight -= existing.weight;
+            this.untag(existing);
+            // Re-inserting moves the key to the back of the recency order
+            if (this.policy === "lru") entries.delete(storeKey);
+        }
+
+        const ttl = ttlMs ? ttlMs + staleTtlMs : null;
+        const weight = options.sizeOf ? options.sizeOf(value, key) : 1;
+        entries.set(storeKey, {
+            key,
+            storeKey,
+            namespace: this.scope,
             value,
-            expiresAt: ttlMs ? Date.now() + ttlMs : null
+            ttl,
+            staleTtl: ttl ? staleTtlMs : 0,
+            expiresAt: ttl ? this.store.clock.now() + ttl : null,
+            weight,
+            hits: existing?.hits ?? 0,
+            tags: tags?.length ? tags : null
         });
+        this.store.totalWeight += weight;
+
+        if (tags) {
+            for (const tag of tags) {
+                let storeKeys = this.store.tags.get(tag);
+                if (!storeKeys) this.store.tags.set(tag, (storeKeys = new Set()));
+                storeKeys.add(storeKey);
+            }
+        }
+
+        this.enforceCapacity(storeKey);
+    }
+
+    private load(key: CacheKey, loader: (key: CacheKey) => Promise<T> | T, options: CacheLoadOptions): Promise<T> {
+        const storeKey = this.storeKey(key);
+        const pending = this.store.loading.get(storeKey);
+        if (pending) return pending.promise;
+
+        // Only the load still registered for its key may write, one dropped by a removal just returns its value
+        const isCurrent = () => this.store.loading.get(storeKey) === load;
+        const load: PendingLoad<T> = {
+            namespace: this.scope,
+            tags: options.tags ?? null,
+            promise: Promise.resolve()
+                .then(() => loader(key))
+                .then(value => {
+                    if (isCurrent()) this.write(key, value, options.ttl, options.staleTtl ?? 0, options.tags);
+                    return value;
+                })
+                .finally(() => {
+                    if (isCurrent()) this.store.loading.delete(storeKey);
+                })
+        };
+
+        this.store.loading.set(storeKey, load);
+        return load.promise;
     }
 
-    get(key: string | number): T | null {
-        const data = this.cache.get(key);
+    private markRead(data: CacheEntry<T>): void {
+        this.store.counters.hits++;
+        data.hits++;
+        if (this.policy === "lru") {
+            this.store.entries.delete(data.storeKey);
+            this.store.entries.set(data.storeKey, data);
+        }
+    }
+
+    private get policy(): CacheEvictionPolicy {
+        return this.store.options.policy ?? "lru";
+    }
+
+    private isExpired(data: CacheEntry<T>, now: number): boolean {
+        return data.expiresAt !== null && now > data.expiresAt;
+    }
+
+    private isStale(data: CacheEntry<T>, now: number): boolean {
+        return data.expiresAt !== null && now > data.expiresAt - data.staleTtl;
+    }
+
+    /** Returns the entry for a key, passively removing it if it has expired. */
+    private getLive(key: CacheKey): CacheEntry<T> | null {
+        const data = this.store.entries.get(this.storeKey(key));
         if (!data) return null;
 
-        if (data.expiresAt && Date.now() > data.expiresAt) {
-            // Passive cleanup
-            this.cache.delete(key);
+        if (this.isExpired(data, this.store.clock.now())) {
+            this.remove(data, "expired");
             return null;
         }
-        return data.value;
+        return data;
+    }
+
+    private untag(data: CacheEntry<T>): void {
+        if (!data.tags) return;
+
+        for (const tag of data.tags) {
+            const storeKeys = this.store.tags.get(tag);
+            storeKeys?.delete(data.storeKey);
+            if (storeKeys?.size === 0) this.store.tags.delete(tag);
+        }
+    }
+
+    private remove(data: CacheEntry<T>, reason: CacheEvictionReason): void {
+        this.store.entries.delete(data.storeKey);
+        this.store.totalWeight -= data.weight;
+        this.untag(data);
+
+        if (reason === "evicted") this.store.counters.evictions++;
+        if (reason === "expired") this.store.counters.expirations++;
+        this.store.options.onEvict?.(data.key, data.value, reason);
+    }
+
+    private isOverCapacity(): boolean {
+        const { maxSize, maxWeight } = this.store.options;
+        if (maxSize !== undefined && this.store.entries.size > maxSize) return true;
+        if (maxWeight !== undefined && this.store.totalWeight > maxWeight) return true;
+        return false;
+    }
+
+    private enforceCapacity(incomingKey: CacheKey): void {
+        while (this.store.entries.size > 0 && this.isOverCapacity()) {
+            const victim = this.findVictim(incomingKey);
+            if (!victim) break;
+            this.remove(victim, "evicted");
+        }
+    }
+
+    private findVictim(incomingKey: CacheKey): CacheEntry<T> | undefined {
+        const { entries } = this.store;
+
+        // Map iteration follows insertion order, so the first entry is the oldest (FIFO),
+        // or the least recently used since reads re-insert their key (LRU)
+        if (this.policy !== "lfu") return entries.values().next().value;
+
+        // Skip the entry being inserted, it would always lose with 0 hits
+        let victim: CacheEntry<T> | undefined;
+        for (const data of entries.values()) {
+            if (data.storeKey === incomingKey && entries.size > 1) continue;
+            if (!victim || data.hits < victim.hits) victim = data;
+        }
+        return victim;
     }
 
     private cleanup(): void {
-        if (this.cache.size === 0) return;
+        if (this.store.entries.size === 0) return;
 
-        const now = Date.now();
+        const now = this.store.clock.now();
         let keysProcessed = 0;
         const maxKeysToScan = 20; // Limit per cycle to avoid CPU spikes
 
         // Iterate through the map
-        for (const [key, data] of this.cache) {
-            if (data.expiresAt && now > data.expiresAt) {
-                this.cache.delete(key);
+        for (const data of this.store.entries.values()) {
+            if (this.isExpired(data, now)) {
+                this.remove(data, "expired");
             }
 
             keysProcessed++;
@@ -53,7 +491,21 @@ export class Cache<T> {
         }
     }
 
+    /** Removes every entry from this cache and its namespaces. Loads in flight are still returned, but aren't cached. */
     clear(): void {
-        this.cache.clear();
+        for (const [storeKey, load] of this.store.loading) {
+            if (this.inScope(load)) this.store.loading.delete(storeKey);
+        }
+
+        if (!this.scope && !this.store.options.onEvict) {
+            this.store.entries.clear();
+            this.store.tags.clear();
+            this.store.totalWeight = 0;
+            return;
+        }
+
+        for (const data of this.store.entries.values()) {
+            if (this.inScope(data)) this.remove(data, "deleted");
+        }
     }
 }
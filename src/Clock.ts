@@ -0,0 +1,169 @@
+/** A timer handle. Real timers are Node.js `Timeout`s or browser timer ids, `ManualClock` timers are numbers. */
+export type ClockTimer = ReturnType<typeof setTimeout> | number;
+
+/**
+ * The source of time and timers for everything time-dependent in qznt.
+ *
+ * Defaults to `realClock`. Pass a `ManualClock` instead to control time in tests.
+ */
+export interface Clock {
+    /** Returns the current time in milliseconds since the Unix epoch. */
+    now(): number;
+    setTimeout(fn: () => void, ms: number): ClockTimer;
+    clearTimeout(timer: ClockTimer): void;
+    setInterval(fn: () => void, ms: number): ClockTimer;
+    clearInterval(timer: ClockTimer): void;
+    /** Keeps a timer from holding the process open. */
+    unref?(timer: ClockTimer): void;
+}
+
+export interface ClockOptions {
+    /** The clock to read the time from. [default: realClock] */
+    clock?: Clock;
+}
+
+/** The system clock, backed by `Date.now()` and the global timer functions. */
+export const realClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (fn, ms) => setTimeout(fn, ms),
+    clearTimeout: timer => clearTimeout(timer),
+    setInterval: (fn, ms) => setInterval(fn, ms),
+    clearInterval: timer => clearInterval(timer),
+    unref: timer => {
+        if (typeof timer === "object") timer.unref?.();
+    }
+};
+
+interface ManualTimer {
+    id: number;
+    at: number;
+    fn: () => void;
+    /** The period of an interval, or null for a timeout. */
+    interval: number | null;
+}
+
+/** Lets pending promise callbacks run, so async code reacting to a timer can schedule its next one. */
+function flushPromises(): Promise<void> {
+    return new Promise(resolve => (typeof setImmediate === "function" ? setImmediate(resolve) : setTimeout(resolve, 0)));
+}
+
+/**
+ * A clock that only moves when told to, for fast and deterministic tests.
+ *
+ * Timers fire in order of their due time as the clock is advanced, with `now()` set to each timer's due time.
+ * Code that awaits between timers, like `Loop` or `retryPromise`, needs `advanceAsync` so its promises can settle.
+ * @example
+ * const clock = new ManualClock();
+ * const cache = new Cache<string>(60_000, { clock });
+ *
+ * cache.set("key", "value", 1000);
+ * clock.advance(1001);
+ * cache.get("key"); // null
+ */
+export class ManualClock implements Clock {
+    private time: number;
+    private nextId = 1;
+    private timers = new Map<number, ManualTimer>();
+
+    /**
+     * @param now The time to start at. [default: Date.now()]
+     */
+    constructor(now: number | Date = Date.now()) {
+        this.time = now instanceof Date ? now.getTime() : now;
+    }
+
+    /** How many timers are waiting to fire. */
+    get pending(): number {
+        return this.timers.size;
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    setTimeout(fn: () => void, ms: number): ClockTimer {
+        return this.addTimer(fn, ms, null);
+    }
+
+    clearTimeout(timer: ClockTimer): void {
+        this.timers.delete(timer as number);
+    }
+
+    setInterval(fn: () => void, ms: number): ClockTimer {
+        // A zero interval would fire forever without time moving
+        return this.addTimer(fn, ms, Math.max(1, ms));
+    }
+
+    clearInterval(timer: ClockTimer): void {
+        this.timers.delete(timer as number);
+    }
+
+    private addTimer(fn: () => void, ms: number, interval: number | null): number {
+        const id = this.nextId++;
+        this.timers.set(id, { id, at: this.time + Math.max(0, ms), fn, interval });
+        return id;
+    }
+
+    /** Returns the earliest timer due at or before a time, oldest first on ties. */
+    private nextDue(until: number): ManualTimer | null {
+        let next: ManualTimer | null = null;
+        for (const timer of this.timers.values()) {
+            if (timer.at <= until && (!next || timer.at < next.at)) next = timer;
+        }
+        return next;
+    }
+
+    private fire(timer: ManualTimer) {
+        this.time = Math.max(this.time, timer.at);
+        if (timer.interval === null) {
+            this.timers.delete(timer.id);
+        } else {
+            timer.at += timer.interval;
+        }
+        timer.fn();
+    }
+
+    /**
+     * Sets the current time without firing any timers. Timers that became due fire on the next advance.
+     * @param time The new time
+     */
+    setNow(time: number | Date): void {
+        this.time = time instanceof Date ? time.getTime() : time;
+    }
+
+    /**
+     * Moves time forward, firing every timer that comes due along the way.
+     * @param ms How far to move in milliseconds
+     */
+    advance(ms: number): void {
+        const target = this.time + ms;
+        for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) this.fire(timer);
+        this.time = target;
+    }
+
+    /**
+     * Like `advance`, but lets pending promises settle before and after each timer fires.
+     * @param ms How far to move in milliseconds
+     */
+    async advanceAsync(ms: number): Promise<void> {
+        const target = this.time + ms;
+        await flushPromises();
+        for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) {
+            this.fire(timer);
+            await flushPromises();
+        }
+        this.time = target;
+    }
+
+    /**
+     * Fires every timer that's pending right now in order, moving time to the last one's due time.
+     * Timers scheduled while these run are left pending.
+     */
+    runPending(): void {
+        const pending = [...this.timers.values()].sort((a, b) => a.at - b.at);
+        for (const timer of pending) {
+            // Skip timers cleared by an earlier one
+            if (this.timers.get(timer.id) === timer) this.fire(timer);
+        }
+    }
+}
@@ -0,0 +1,383 @@
+import crypto from "node:crypto";
+import type { StorageAdapter } from "./StorageAdapter.js";
+
+export interface EncryptedAdapterOptions {
+    /** The secret to derive the encryption key from. */
+    secret: string;
+    /**
+     * Secrets the store was previously encrypted with.
+     * Entries that only decrypt with one of these are re-encrypted with `secret` on load, rotating the key.
+     */
+    previousSecrets?: string[];
+    /** Also hides key names by storing each entry under an HMAC of its key. [default: false] */
+    encryptKeys?: boolean;
+    /**
+     * Encrypts entries that were stored as plain text on load, for turning on encryption for an existing store.
+     * Entries that look like ciphertext but fail to decrypt are still rejected as tampered. [default: false]
+     */
+    migratePlaintext?: boolean;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+interface Cipher {
+    encrypt(plain: string, aad: string): MaybePromise<string>;
+    /** Throws if the data was encrypted with another key, or has been tampered with. */
+    decrypt(data: string, aad: string): MaybePromise<string>;
+    sign(text: string): MaybePromise<string>;
+}
+
+/** Reserved key holding the PBKDF2 salt, stored in plain text. */
+const SALT_KEY = "__salt__";
+const PBKDF2_ITERATIONS = 100_000;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** AES-256-GCM and HMAC-SHA256 through node:crypto. Everything runs synchronously. */
+function createNodeCipher(secret: string, salt: Uint8Array): Cipher {
+    const material = crypto.pbkdf2Sync(secret, salt, PBKDF2_ITERATIONS, 64, "sha256");
+    const encKey = material.subarray(0, 32);
+    const macKey = material.subarray(32);
+
+    return {
+        encrypt(plain, aad) {
+            const iv = crypto.randomBytes(IV_BYTES);
+            const cipher = crypto.createCipheriv("aes-256-gcm", encKey, iv);
+            cipher.setAAD(Buffer.from(aad));
+            // Same layout as WebCrypto: iv | ciphertext | tag
+            return Buffer.concat([iv, cipher.update(plain, "utf8"), cipher.final(), cipher.getAuthTag()]).toString("base64");
+        },
+        decrypt(data, aad) {
+            const buf = Buffer.from(data, "base64");
+            const decipher = crypto.createDecipheriv("aes-256-gcm", encKey, buf.subarray(0, IV_BYTES));
+            decipher.setAAD(Buffer.from(aad));
+            decipher.setAuthTag(buf.subarray(buf.length - TAG_BYTES));
+            return Buffer.concat([
+                decipher.update(buf.subarray(IV_BYTES, buf.length - TAG_BYTES)),
+                decipher.final()
+            ]).toString("utf8");
+        },
+        sign(text) {
+            return crypto.createHmac("sha256", macKey).update(text).digest("base64url");
+        }
+    };
+}
+
+/** AES-256-GCM and HMAC-SHA256 through WebCrypto, which is async only. */
+async function createWebCipher(secret: string, salt: Uint8Array<ArrayBuffer>): Promise<Cipher> {
+    const { subtle } = globalThis.crypto;
+    const encoder = new TextEncoder();
+
+    const baseKey = await subtle.importKey("raw", encoder.encode(secret), "PBKDF2", false, ["deriveBits"]);
+    const material = new Uint8Array(
+        await subtle.deriveBits({ name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" }, baseKey, 512)
+    );
+    const encKey = await subtle.importKey("raw", material.slice(0, 32), "AES-GCM", false, ["encrypt", "decrypt"]);
+    const macKey = await subtle.importKey("raw", material.slice(32), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+
+    return {
+        async encrypt(plain, aad) {
+            const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+            const sealed = await subtle.encrypt(
+                { name: "AES-GCM", iv, additionalData: encoder.encode(aad) },
+                encKey,
+                encoder.encode(plain)
+            );
+            const out = new Uint8Array(IV_BYTES + sealed.byteLength);
+            out.set(iv);
+            out.set(new Uint8Array(sealed), IV_BYTES);
+            return toBase64(out);
+        },
+        async decrypt(data, aad) {
+            const buf = fromBase64(data);
+            const plain = await subtle.decrypt(
+                { name: "AES-GCM", iv: buf.subarray(0, IV_BYTES), additionalData: encoder.encode(aad) },
+                encKey,
+                buf.subarray(IV_BYTES)
+            );
+            return new TextDecoder().decode(plain);
+        },
+        async sign(text) {
+            const mac = new Uint8Array(await subtle.sign("HMAC", macKey, encoder.encode(text)));
+            return toBase64(mac).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+        }
+    };
+}
+
+/** Checks if a stored value has the shape of an encrypted entry: base64 holding at least an IV and an auth tag. */
+function isCiphertext(raw: string): boolean {
+    return raw.length % 4 === 0 && raw.length >= ((IV_BYTES + TAG_BYTES) / 3) * 4 && /^[A-Za-z0-9+/]+={0,2}$/.test(raw);
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+    return btoa(binary);
+}
+
+function fromBase64(str: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(str), char => char.charCodeAt(0));
+}
+
+/**
+ * Drives a generator that yields values or promises, resuming synchronously until it hits a promise.
+ * This lets the same code run fully synchronously with node:crypto and asynchronously with WebCrypto.
+ */
+function runMaybeAsync<T>(gen: Generator<unknown, T, any>): MaybePromise<T> {
+    const resume = (result: IteratorResult<unknown, T>): MaybePromise<T> => {
+        while (!result.done) {
+            if (result.value instanceof Promise) {
+                return result.value.then(
+                    value => resume(gen.next(value)),
+                    err => resume(gen.throw(err))
+                );
+            }
+            result = gen.next(result.value);
+        }
+        return result.value;
+    };
+    return resume(gen.next());
+}
+
+/**
+ * Encrypts everything written to another adapter with AES-256-GCM.
+ *
+ * Each value is authenticated together with the name it's stored under, so tampered or swapped entries fail to load.
+ * Decrypted values are kept in memory. In Node.js everything happens synchronously, in the browser the adapter
+ * loads asynchronously and writes land shortly after they're made, so wait for `ready` before reading.
+ * @example
+ * const secrets = new Storage({
+ *     adapter: new EncryptedAdapter(new JsonFileAdapter("./secrets.json"), { secret: process.env.STORE_SECRET! })
+ * });
+ */
+export class EncryptedAdapter implements StorageAdapter {
+    /** Only set in the browser, where keys are derived and values decrypted asynchronously. */
+    ready?: Promise<void>;
+    /** Only set if the wrapped adapter supports backups. */
+    declare backup?: () => string;
+    /** Only set if the wrapped adapter supports batches. Writes only land within the batch in Node.js. */
+    declare batch?: (fn: () => void) => void;
+
+    private inner: StorageAdapter;
+    private encryptKeys: boolean;
+    private migratePlaintext: boolean;
+    private salt: string;
+    private ciphers: Cipher[] = [];
+    /** Decrypted values by key. */
+    private data = new Map<string, string>();
+    /** The name each key is stored under in the inner adapter. */
+    private names = new Map<string, string>();
+    private writes: Promise<void> = Promise.resolve();
+    /** Keys set or removed before an async load finished, which the load mustn't overwrite. */
+    private changedBeforeLoad: Set<string> | null = null;
+    private clearedBeforeLoad = false;
+
+    /**
+     * @param inner The adapter to store encrypted data in
+     * @param options The secret and encryption options
+     */
+    constructor(inner: StorageAdapter, options: EncryptedAdapterOptions) {
+        this.inner = inner;
+        this.encryptKeys = options.encryptKeys ?? false;
+        this.migratePlaintext = options.migratePlaintext ?? false;
+        if (inner.backup) this.backup = () => inner.backup!();
+        if (inner.batch) this.batch = fn => inner.batch!(fn);
+
+        const storedSalt = inner.get(SALT_KEY);
+        this.salt = storedSalt ?? toBase64(globalThis.crypto.getRandomValues(new Uint8Array(16)));
+        if (!storedSalt) inner.set(SALT_KEY, this.salt);
+
+        const isNode = typeof window === "undefined";
+        const salt = fromBase64(this.salt);
+        const secrets = [options.secret, ...(options.previousSecrets ?? [])];
+
+        if (isNode) {
+            this.ciphers = secrets.map(secret => createNodeCipher(secret, salt));
+            runMaybeAsync(this.load());
+        } else {
+            this.changedBeforeLoad = new Set();
+            this.ready = Promise.all(secrets.map(secret => createWebCipher(secret, salt)))
+                .then(ciphers => {
+                    this.ciphers = ciphers;
+                    return runMaybeAsync(this.load());
+                })
+                .finally(() => (this.changedBeforeLoad = null));
+            // Writes made before the ciphers are derived wait for them
+            this.writes = this.ready;
+        }
+    }
+
+    private get cipher(): Cipher {
+        return this.ciphers[0]!;
+    }
+
+    /**
+     * Decrypts an entry, returning its key and value and whether it needs re-encrypting,
+     * i.e. it was encrypted with a previous secret or stored as plain text.
+     */
+    private *decryptEntry(name: string, raw: string): Generator<unknown, [string, string, boolean], any> {
+        if (this.migratePlaintext && !isCiphertext(raw)) return [name, raw, true];
+
+        for (let i = 0; i < this.ciphers.length; i++) {
+            try {
+                const [key, value] = JSON.parse((yield this.ciphers[i]!.decrypt(raw, name)) as string);
+                return [key, value, i > 0];
+            } catch {}
+        }
+        throw new Error(
+            `EncryptedAdapter: Failed to decrypt '${name}'. The data was tampered with or the secret is wrong` +
+                (isCiphertext(raw) ? "" : ". Set `migratePlaintext` to encrypt a store that was saved unencrypted")
+        );
+    }
+
+    /** Writes an entry encrypted with the current secret, moving it if its stored name changed. */
+    private *writeEntry(key: string, value: string, previousName = this.names.get(key)): Generator<unknown, void, any> {
+        const name = this.encryptKeys ? ((yield this.cipher.sign(key)) as string) : key;
+        const sealed = (yield this.cipher.encrypt(JSON.stringify([key, value]), name)) as string;
+
+        this.inner.set(name, sealed);
+        if (previousName !== undefined && previousName !== name) this.inner.remove(previousName);
+        this.names.set(key, name);
+    }
+
+    private *load(): Generator<unknown, void, any> {
+        for (const name of this.inner.keys()) {
+            if (name === SALT_KEY) continue;
+
+            const [key, value, stale] = yield* this.decryptEntry(name, this.inner.get(name)!);
+            this.names.set(key, name);
+            // The queued write of a newer value, or its removal, follows the load
+            if (this.clearedBeforeLoad || this.changedBeforeLoad?.has(key)) continue;
+            this.data.set(key, value);
+
+            // Re-encrypting with the current secret rotates the key, and renames entries if `encryptKeys` was toggled
+            const expectedName = this.encryptKeys ? ((yield this.cipher.sign(key)) as string) : key;
+            if (stale || expectedName !== name) yield* this.writeEntry(key, value, name);
+        }
+    }
+
+    private *removeEntry(key: string): Generator<unknown, void, any> {
+        const name = this.names.get(key);
+        if (name === undefined) return;
+
+        this.names.delete(key);
+        this.inner.remove(name);
+    }
+
+    private *clearEntries(): Generator<unknown, void, any> {
+        this.names.clear();
+        this.inner.clear();
+        // Keep the salt, later writes are still encrypted with keys derived from it
+        this.inner.set(SALT_KEY, this.salt);
+    }
+
+    /** Applies changes made to the inner adapter by someone else, returning the keys that changed. */
+    private *syncEntries(names: string[]): Generator<unknown, string[], any> {
+        const changed: string[] = [];
+
+        for (const name of names) {
+            if (name === SALT_KEY) continue;
+
+            const raw = this.inner.get(name);
+            if (raw === null) {
+                const key = [...this.names].find(([, storedName]) => storedName === name)?.[0];
+                if (key === undefined) continue;
+
+                this.data.delete(key);
+                this.names.delete(key);
+                changed.push(key);
+                continue;
+            }
+
+            let entry: [string, string, boolean];
+            try {
+                entry = yield* this.decryptEntry(name, raw);
+            } catch (err) {
+                // A bad entry from someone else mustn't take down the watcher, or the process in Node.js
+                console.error(`EncryptedAdapter: Skipped an external change to '${name}'`, err);
+                continue;
+            }
+
+            const [key, value] = entry;
+            this.data.set(key, value);
+            this.names.set(key, name);
+            changed.push(key);
+        }
+        return changed;
+    }
+
+    private enqueue(task: Generator<unknown, void, any>) {
+        if (!this.ready) {
+            runMaybeAsync(task);
+            return;
+        }
+
+        // Keep async writes in the order they were made
+        this.writes = this.writes
+            .then(() => runMaybeAsync(task))
+            .catch(err => console.error("EncryptedAdapter: Failed to write", err));
+    }
+
+    get(key: string): string | null {
+        return this.data.get(key) ?? null;
+    }
+
+    set(key: string, value: string): void {
+        if (!this.encryptKeys && key === SALT_KEY) throw new Error(`EncryptedAdapter: '${SALT_KEY}' is a reserved key`);
+
+        this.changedBeforeLoad?.add(key);
+        this.data.set(key, value);
+        this.enqueue(this.writeEntry(key, value));
+    }
+
+    has(key: string): boolean {
+        return this.data.has(key);
+    }
+
+    remove(key: string): void {
+        this.changedBeforeLoad?.add(key);
+        this.data.delete(key);
+        this.enqueue(this.removeEntry(key));
+    }
+
+    clear(): void {
+        if (this.changedBeforeLoad) this.clearedBeforeLoad = true;
+        this.data.clear();
+        this.enqueue(this.clearEntries());
+    }
+
+    keys(): string[] {
+        return [...this.data.keys()];
+    }
+
+    flush(): void {
+        this.inner.flush?.();
+    }
+
+    close(): void {
+        this.inner.close?.();
+    }
+
+    compact(): void {
+        this.inner.compact?.();
+    }
+
+    watch(listener: (keys: string[] | null) => void): () => void {
+        if (!this.inner.watch) return () => {};
+
+        return this.inner.watch(names => {
+            if (names === null) {
+                this.data.clear();
+                this.names.clear();
+                return listener(null);
+            }
+
+            const changed = runMaybeAsync(this.syncEntries(names));
+            if (changed instanceof Promise) {
+                changed.then(listener, err => console.error("EncryptedAdapter: Failed to sync", err));
+            } else {
+                listener(changed);
+            }
+        });
+    }
+}
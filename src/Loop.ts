@@ -1,119 +1,422 @@
 import EventEmitter from "node:events";
+import { TimeoutError } from "./async.js";
+import { realClock, type Clock, type ClockOptions, type ClockTimer } from "./Clock.js";
+import { getNextCronDate, parseCron, type CronSchedule } from "./cron.js";
 import type { TypedEmitter } from "./types.js";
 
-type LoopState = "running" | "paused" | "stopped";
+export type LoopState = "running" | "paused" | "stopped";
+
+/**
+ * Why a loop stopped.
+ * - `manual`: `stop()` was called
+ * - `maxRuns`: The loop ran `maxRuns` times
+ * - `stopAfter`: The `stopAfter` duration or deadline passed
+ * - `maxConsecutiveErrors`: The function failed `maxConsecutiveErrors` times in a row
+ * - `exhausted`: The cron expression can't match again
+ */
+export type LoopStopReason = "manual" | "maxRuns" | "stopAfter" | "maxConsecutiveErrors" | "exhausted";
 
 export interface LoopEvents<T> {
     start: [];
     tick: [result: T];
     pause: [{ remaining: number }];
     resume: [];
-    stop: [];
+    stop: [{ reason: LoopStopReason }];
     error: [error: unknown];
 }
 
+export interface LoopBackoffOptions {
+    /** What the delay is multiplied by after each consecutive error. [default: 2] */
+    factor?: number;
+    /** The longest the delay can grow to in milliseconds. [default: 300000] */
+    maxDelay?: number;
+}
+
+export interface LoopMetrics {
+    /** How many times the function ran, including failed runs. */
+    runs: number;
+    /** How many runs failed. */
+    errors: number;
+    /** How long the last run took in milliseconds. */
+    lastDuration: number;
+    /** The average run duration in milliseconds. */
+    averageDuration: number;
+    /** When the last run started, or null if the loop never ran. */
+    lastRunAt: Date | null;
+    /** When the next run is scheduled, or null if the loop isn't waiting for one. */
+    nextRunAt: Date | null;
+}
+
+export interface LoopOptions extends ClockOptions {
+    /** Whether to start the loop immediately. [default: true] */
+    immediate?: boolean;
+    /**
+     * How runs are spaced.
+     * - `fixed-delay`: Waits `delay` after each run finishes, so the period grows with the run's duration
+     * - `fixed-rate`: Runs every `delay` from the first run, no matter how long each run takes
+     *
+     * [default: "fixed-delay"]
+     */
+    mode?: "fixed-delay" | "fixed-rate";
+    /**
+     * What a fixed-rate loop does with slots it missed because a run took longer than `delay`.
+     * - `skip`: Waits for the next slot that's still ahead
+     * - `catch-up`: Runs once for every missed slot, back to back, until it's on schedule again
+     *
+     * Runs never overlap either way. [default: "skip"]
+     */
+    missed?: "skip" | "catch-up";
+    /**
+     * Grows the delay exponentially while the function keeps failing, and resets it after a successful run.
+     * Pass `true` for the defaults. Has no effect on cron loops. [default: false]
+     */
+    backoff?: boolean | LoopBackoffOptions;
+    /**
+     * Adds a random delay of up to this many milliseconds to each run, so loops started together spread out.
+     * [default: 0]
+     */
+    jitter?: number;
+    /** Stops the loop after it ran this many times. */
+    maxRuns?: number;
+    /** Stops the loop after this many milliseconds from `start()`, or at this date. */
+    stopAfter?: number | Date;
+    /** Stops the loop after the function failed this many times in a row. */
+    maxConsecutiveErrors?: number;
+    /**
+     * Fails a run that takes longer than this many milliseconds with a `TimeoutError`, and aborts its signal.
+     * The loop moves on right away, so a function that ignores the signal keeps running in the background.
+     */
+    timeout?: number;
+}
+
+export interface LoopCronOptions extends Omit<LoopOptions, "backoff" | "mode" | "missed"> {
+    /** The IANA timezone to evaluate the expression in, e.g. "Europe/Berlin". [default: local time] */
+    timezone?: string;
+}
+
 const TypedEmitterBase = EventEmitter as { new <T>(): TypedEmitter<LoopEvents<T>> };
 
+/** setTimeout overflows past ~24.8 days, so longer waits are split into several timers. */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
 export class Loop<T = unknown> extends TypedEmitterBase<T> {
     private _state: LoopState = "stopped";
-    private timeoutId: NodeJS.Timeout | null = null;
+    private timeoutId: ClockTimer | null = null;
     private delay: number;
-    private fn: (loop: Loop<T>) => Promise<T> | T;
+    private fn: (loop: Loop<T>, signal: AbortSignal) => Promise<T> | T;
+    private cron: { schedule: CronSchedule; timezone?: string } | null = null;
+    private options: LoopOptions;
+    private clock: Clock;
 
     private startTime: number = 0;
     private remaining: number = 0;
+    private nextRunAt: number | null = null;
+    private deadline: number | null = null;
+    /** The fixed-rate slot the next run is aimed at. */
+    private slot: number = 0;
+    /** Runs since the last `start()`, for `maxRuns`. */
+    private runs: number = 0;
+    private consecutiveErrors: number = 0;
+
+    private totalRuns: number = 0;
+    private totalErrors: number = 0;
+    private totalDuration: number = 0;
+    private lastDuration: number = 0;
+    private lastRunAt: number | null = null;
+
+    /** Aborts the in-flight run. */
+    private controller: AbortController | null = null;
+    /** Settles once the in-flight run has. */
+    private inFlight: Promise<void> | null = null;
 
     private async run() {
         const currentState: LoopState = this._state;
 
         if (currentState === "stopped" || currentState === "paused") return;
+        if (this.deadline !== null && this.clock.now() >= this.deadline) return this.end("stopAfter");
+
+        this.inFlight = this.tick();
+        await this.inFlight;
+        this.inFlight = null;
+
+        // Re-check state after the async function finishes
+        if (this._state !== "running") return;
+
+        const { maxRuns, maxConsecutiveErrors } = this.options;
+        if (maxRuns !== undefined && this.runs >= maxRuns) return this.end("maxRuns");
+        if (maxConsecutiveErrors !== undefined && this.consecutiveErrors >= maxConsecutiveErrors) {
+            return this.end("maxConsecutiveErrors");
+        }
+        this.scheduleNext();
+    }
+
+    /** Runs the function once, recording metrics and emitting its result or error. Never rejects. */
+    private async tick() {
+        const controller = new AbortController();
+        this.controller = controller;
+        this.runs++;
+        this.totalRuns++;
+        this.lastRunAt = this.clock.now();
 
         try {
-            const result = await this.fn(this);
+            const { timeout } = this.options;
+            const pending = this.fn(this, controller.signal);
+            const result = await (timeout === undefined ? pending : this.withTimeout(pending, timeout, controller));
+            this.recordDuration();
+            this.consecutiveErrors = 0;
             this.emit("tick", result);
         } catch (err) {
+            this.recordDuration();
+            // A run that bails out because stop() aborted it didn't fail
+            if (this._state === "stopped" && controller.signal.aborted) return;
+
+            this.consecutiveErrors++;
+            this.totalErrors++;
             // An unlistened "error" event makes EventEmitter throw synchronously, which would
             // otherwise escape run() and skip the reschedule below. Swallow that so a failing
             // tick never kills the loop.
             try {
                 this.emit("error", err);
             } catch {}
+        } finally {
+            this.controller = null;
         }
+    }
 
-        // Re-check state after the async function finishes
-        if (this._state === "running") {
-            this.startTime = Date.now();
-            this.remaining = 0;
-            this.clearTimer();
-            this.timeoutId = setTimeout(() => this.run(), this.delay);
+    /** Rejects with a `TimeoutError` and aborts the run's signal if it takes longer than `ms`. */
+    private withTimeout(pending: Promise<T> | T, ms: number, controller: AbortController): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const timer = this.clock.setTimeout(() => {
+                const err = new TimeoutError(`Loop: Run timed out after ${ms}ms`);
+                controller.abort(err);
+                reject(err);
+            }, ms);
+
+            Promise.resolve(pending)
+                .then(resolve, reject)
+                .finally(() => this.clock.clearTimeout(timer));
+        });
+    }
+
+    private recordDuration() {
+        this.lastDuration = this.clock.now() - this.lastRunAt!;
+        this.totalDuration += this.lastDuration;
+    }
+
+    /** The delay before the next run, grown by the error backoff. */
+    private currentDelay(): number {
+        const { backoff } = this.options;
+        if (!backoff || this.consecutiveErrors === 0) return this.delay;
+
+        const { factor = 2, maxDelay = 300_000 } = backoff === true ? {} : backoff;
+        // Never back off to less than the normal delay
+        return Math.min(this.delay * factor ** this.consecutiveErrors, Math.max(maxDelay, this.delay));
+    }
+
+    /** Schedules the next run after the delay, or at the next time the cron expression matches. */
+    private scheduleNext() {
+        this.startTime = this.clock.now();
+        this.remaining = 0;
+        this.clearTimer();
+
+        const jitter = Math.random() * (this.options.jitter ?? 0);
+        if (!this.cron) {
+            const backingOff = this.options.backoff && this.consecutiveErrors > 0;
+            if (this.options.mode === "fixed-rate" && !backingOff) return this.schedule(this.nextSlot() + jitter);
+
+            // Slots resume from wherever a delayed run lands. Jitter isn't part of the slot, so it never accumulates
+            this.slot = this.startTime + this.currentDelay();
+            return this.schedule(this.slot + jitter);
         }
+
+        const next = getNextCronDate(this.cron.schedule, this.startTime, this.cron.timezone);
+        // The expression can't match again, e.g. "0 0 29 2 *" after the last leap year we search
+        if (!next) return this.end("exhausted");
+        this.schedule(next.getTime() + jitter);
+    }
+
+    /** Advances to the next fixed-rate slot, skipping missed ones unless catching up. */
+    private nextSlot(): number {
+        this.slot += this.delay;
+
+        const now = this.clock.now();
+        if (this.slot < now && this.options.missed !== "catch-up" && this.delay > 0) {
+            this.slot += Math.ceil((now - this.slot) / this.delay) * this.delay;
+        }
+        return this.slot;
+    }
+
+    private schedule(at: number) {
+        this.nextRunAt = at;
+        // Wake up at the deadline rather than waiting for a run that will never happen
+        const wakeAt = Math.min(at, this.deadline ?? Infinity);
+        this.timeoutId = this.clock.setTimeout(
+            () => {
+                if (this.deadline !== null && this.clock.now() >= this.deadline) return this.end("stopAfter");
+                if (this.clock.now() < at) return this.schedule(at);
+                this.nextRunAt = null;
+                this.run();
+            },
+            Math.min(Math.max(0, wakeAt - this.clock.now()), MAX_TIMEOUT)
+        );
+    }
+
+    private end(reason: LoopStopReason) {
+        const wasRunning = this._state !== "stopped";
+        this._state = "stopped";
+        this.remaining = 0;
+        this.deadline = null;
+        this.clearTimer();
+        if (wasRunning) this.emit("stop", { reason });
     }
 
     private clearTimer() {
-        if (this.timeoutId) {
-            clearTimeout(this.timeoutId);
+        if (this.timeoutId !== null) {
+            this.clock.clearTimeout(this.timeoutId);
             this.timeoutId = null;
         }
+        this.nextRunAt = null;
     }
 
     /**
      * Creates an interval. If the function is async, it will wait for it to complete before scheduling the next run.
-     * @param fn The function to run.
+     * @param fn The function to run. It receives the loop and a signal that aborts on `stop()` or when the run times out.
      * @param delay The delay between runs in milliseconds.
-     * @param immediate Whether to start the loop immediately. [default: true]
+     * @param options Whether to start the loop immediately, or options for backoff, jitter and when to stop. [default: true]
+     * @example
+     * const poller = new Loop(fetchUpdates, 5000, { backoff: { maxDelay: 60_000 }, maxConsecutiveErrors: 10 });
+     * poller.on("stop", ({ reason }) => console.log(`Polling stopped: ${reason}`));
      */
-    constructor(fn: (loop: Loop<T>) => Promise<T> | T, delay: number, immediate = true) {
+    constructor(
+        fn: (loop: Loop<T>, signal: AbortSignal) => Promise<T> | T,
+        delay: number,
+        options: boolean | LoopOptions = true
+    ) {
         super();
         this.fn = fn;
         this.delay = delay;
-        if (immediate) this.start();
+        this.options = typeof options === "boolean" ? { immediate: options } : options;
+        this.clock = this.options.clock ?? realClock;
+        if (this.options.immediate ?? true) this.start();
+    }
+
+    /**
+     * Creates a loop that runs whenever a cron expression matches.
+     *
+     * Supports 5 fields (minute hour day-of-month month day-of-week), or 6 with a leading seconds field.
+     * Like any loop, a run that's still going when the next time comes around skips it rather than overlapping.
+     * @param expression The cron expression, e.g. "0 3 * * *" for every day at 03:00.
+     * @param fn The function to run.
+     * @param options The timezone, whether to start immediately, jitter and when to stop.
+     * @example
+     * const backup = Loop.cron("0 3 * * *", () => runBackup(), { timezone: "Europe/Berlin" });
+     * const report = Loop.cron("0 9 * * MON", () => sendReport());
+     */
+    static cron<T = unknown>(
+        expression: string,
+        fn: (loop: Loop<T>, signal: AbortSignal) => Promise<T> | T,
+        options: LoopCronOptions = {}
+    ): Loop<T> {
+        const schedule = parseCron(expression);
+        if (!getNextCronDate(schedule, (options.clock ?? realClock).now(), options.timezone)) {
+            throw new Error(`Loop: Cron expression "${expression}" never matches`);
+        }
+
+        const loop = new Loop<T>(fn, 0, { ...options, immediate: false });
+        loop.cron = { schedule, timezone: options.timezone };
+        if (options.immediate ?? true) loop.start();
+        return loop;
     }
 
     get state(): LoopState {
         return this._state;
     }
 
-    /** Starts the loop. */
+    /** When the next run is scheduled, or null if the loop isn't waiting for one. */
+    get nextRun(): Date | null {
+        return this.nextRunAt === null ? null : new Date(this.nextRunAt);
+    }
+
+    /** Returns runtime metrics collected over the loop's lifetime. */
+    metrics(): LoopMetrics {
+        return {
+            runs: this.totalRuns,
+            errors: this.totalErrors,
+            lastDuration: this.lastDuration,
+            averageDuration: this.totalRuns ? this.totalDuration / this.totalRuns : 0,
+            lastRunAt: this.lastRunAt === null ? null : new Date(this.lastRunAt),
+            nextRunAt: this.nextRun
+        };
+    }
+
+    /** Starts the loop. Cron loops wait for the next matching time, others run right away. */
     start() {
         if (this._state !== "stopped") return;
         this._state = "running";
+        this.runs = 0;
+        this.consecutiveErrors = 0;
+
+        const { stopAfter } = this.options;
+        if (stopAfter !== undefined) {
+            this.deadline = stopAfter instanceof Date ? stopAfter.getTime() : this.clock.now() + stopAfter;
+        }
+
         this.emit("start");
-        this.run();
+        this.slot = this.clock.now();
+        if (this.cron) {
+            this.scheduleNext();
+        } else {
+            this.run();
+        }
     }
 
-    /** Resumes a paused loop. */
+    /** Resumes a paused loop. Cron loops skip any times missed while paused and wait for the next one. */
     resume() {
         if (this._state !== "paused") return;
         this._state = "running";
         this.emit("resume");
-        if (this.remaining <= 0) {
+        // Fixed-rate slots shift by however long the loop was paused
+        this.slot = this.clock.now() + this.remaining;
+        if (this.cron) {
+            this.scheduleNext();
+        } else if (this.remaining <= 0) {
             this.run();
         } else {
-            this.timeoutId = setTimeout(() => this.run(), this.remaining);
+            this.schedule(this.clock.now() + this.remaining);
         }
     }
 
-    /** Stops the loop. */
-    stop() {
-        const wasRunning = this._state !== "stopped";
-        this._state = "stopped";
-        this.remaining = 0;
-        this.clearTimer();
-        if (wasRunning) this.emit("stop");
+    /**
+     * Stops the loop, aborting the signal passed to the in-flight run.
+     * @param options Pass `graceful: true` to let the in-flight run finish without aborting it.
+     * @returns A promise that resolves once the in-flight run, if any, has settled.
+     * @example
+     * process.on("SIGTERM", async () => {
+     *     await loop.stop({ graceful: true });
+     *     process.exit(0);
+     * });
+     */
+    stop(options: { graceful?: boolean } = {}): Promise<void> {
+        const inFlight = this.inFlight;
+        if (!options.graceful) this.controller?.abort();
+        this.end("manual");
+        return inFlight ?? Promise.resolve();
     }
 
     /** Pauses the execution. */
     pause() {
         if (this._state !== "running") return;
         this._state = "paused";
-        const elapsed = Date.now() - this.startTime;
-        this.remaining = Math.max(0, this.delay - elapsed);
+        const elapsed = this.clock.now() - this.startTime;
+        // While waiting, the next run's time already includes any backoff and jitter
+        this.remaining =
+            this.nextRunAt !== null ? Math.max(0, this.nextRunAt - this.clock.now()) : Math.max(0, this.delay - elapsed);
         this.emit("pause", { remaining: this.remaining });
         this.clearTimer();
     }
 
     /**
-     * Sets the delay between runs
+     * Sets the delay between runs. Has no effect on cron loops.
      * @param ms The new delay in milliseconds.
      */
     setDelay(ms: number) {
@@ -122,6 +425,6 @@ export class Loop<T = unknown> extends TypedEmitterBase<T> {
 
     /** Manually trigger the function once without affecting the loop. */
     async execute() {
-        await this.fn(this);
+        await this.fn(this, new AbortController().signal);
     }
 }
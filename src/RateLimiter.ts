@@ -0,0 +1,253 @@
+import { realClock, type Clock, type ClockOptions, type ClockTimer } from "./Clock.js";
+
+/**
+ * How a limit counts usage.
+ * - `token-bucket`: Tokens refill continuously, allowing bursts of up to `limit` after a quiet period
+ * - `sliding-window`: Never more than `limit` within any `interval`, counted from each acquisition
+ */
+export type RateLimitAlgorithm = "token-bucket" | "sliding-window";
+
+export interface RateLimit {
+    /** How many units may be used per interval. */
+    limit: number;
+    /** The interval in milliseconds. */
+    interval: number;
+    /** How usage is counted. [default: "token-bucket"] */
+    algorithm?: RateLimitAlgorithm;
+}
+
+export interface RateLimiterOptions extends ClockOptions {
+    /** The most acquisitions that can wait at once. Further ones are rejected. [default: Infinity] */
+    maxQueue?: number;
+}
+
+export interface RateLimiterScheduleOptions {
+    /** How many units the call uses. [default: 1] */
+    cost?: number;
+    /** An AbortSignal to stop waiting. */
+    signal?: AbortSignal;
+}
+
+interface Limiter {
+    readonly limit: number;
+    /** Returns how long until `cost` units are available in milliseconds, 0 if they are now. */
+    wait(cost: number, now: number): number;
+    take(cost: number, now: number): void;
+}
+
+class TokenBucket implements Limiter {
+    readonly limit: number;
+    private perMs: number;
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor({ limit, interval }: RateLimit, now: number) {
+        this.limit = limit;
+        this.perMs = limit / interval;
+        this.tokens = limit;
+        this.updatedAt = now;
+    }
+
+    private refill(now: number) {
+        this.tokens = Math.min(this.limit, this.tokens + (now - this.updatedAt) * this.perMs);
+        this.updatedAt = now;
+    }
+
+    wait(cost: number, now: number): number {
+        this.refill(now);
+        return this.tokens >= cost ? 0 : Math.ceil((cost - this.tokens) / this.perMs);
+    }
+
+    take(cost: number, now: number) {
+        this.refill(now);
+        this.tokens -= cost;
+    }
+}
+
+class SlidingWindow implements Limiter {
+    readonly limit: number;
+    private interval: number;
+    /** Acquisitions within the window, oldest first. */
+    private log: { at: number; cost: number }[] = [];
+    private used = 0;
+
+    constructor({ limit, interval }: RateLimit) {
+        this.limit = limit;
+        this.interval = interval;
+    }
+
+    private prune(now: number) {
+        while (this.log[0] && this.log[0].at <= now - this.interval) this.used -= this.log.shift()!.cost;
+    }
+
+    wait(cost: number, now: number): number {
+        this.prune(now);
+
+        // Find when enough of the oldest acquisitions leave the window
+        let freed = this.limit - this.used;
+        for (const entry of this.log) {
+            if (freed >= cost) break;
+            freed += entry.cost;
+            if (freed >= cost) return entry.at + this.interval - now;
+        }
+        return 0;
+    }
+
+    take(cost: number, now: number) {
+        this.log.push({ at: now, cost });
+        this.used += cost;
+    }
+}
+
+interface Waiter {
+    cost: number;
+    resolve: () => void;
+    reject: (err: unknown) => void;
+    cleanup: () => void;
+}
+
+/**
+ * Spaces out work to stay within one or more rate limits, e.g. an API's quota.
+ *
+ * Unlike `throttle`, nothing is dropped: acquisitions wait their turn in order until every limit has room.
+ * @example
+ * // 50 requests per second, and 10,000 per day
+ * const limiter = new RateLimiter([
+ *     { limit: 50, interval: 1000 },
+ *     { limit: 10_000, interval: parseTime("1d"), algorithm: "sliding-window" }
+ * ]);
+ *
+ * const user = await limiter.schedule(() => api.getUser(id));
+ */
+export class RateLimiter {
+    private limiters: Limiter[];
+    private clock: Clock;
+    private maxQueue: number;
+    private queue: Waiter[] = [];
+    private timer: ClockTimer | null = null;
+
+    /**
+     * @param limits The limits to stay within. Every one of them must have room for an acquisition to go through
+     * @param options Options for the queue
+     */
+    constructor(limits: RateLimit | RateLimit[], options: RateLimiterOptions = {}) {
+        this.clock = options.clock ?? realClock;
+        this.maxQueue = options.maxQueue ?? Infinity;
+        this.limiters = (Array.isArray(limits) ? limits : [limits]).map(limit =>
+            limit.algorithm === "sliding-window" ? new SlidingWindow(limit) : new TokenBucket(limit, this.clock.now())
+        );
+    }
+
+    /** How many acquisitions are waiting. */
+    get queued(): number {
+        return this.queue.length;
+    }
+
+    private validate(cost: number) {
+        const max = Math.min(...this.limiters.map(l => l.limit));
+        if (cost > max) throw new Error(`RateLimiter: A cost of ${cost} exceeds the smallest limit of ${max}`);
+    }
+
+    /** Returns how long until every limit has room for `cost` in milliseconds. */
+    private waitFor(cost: number, now: number): number {
+        return Math.max(0, ...this.limiters.map(l => l.wait(cost, now)));
+    }
+
+    /** Lets waiting acquisitions through in order, then sleeps until the next one can go. */
+    private drain() {
+        if (this.timer !== null) {
+            this.clock.clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        while (this.queue.length) {
+            const head = this.queue[0]!;
+            const now = this.clock.now();
+            const wait = this.waitFor(head.cost, now);
+            if (wait > 0) {
+                this.timer = this.clock.setTimeout(() => this.drain(), wait);
+                return;
+            }
+
+            this.queue.shift();
+            this.limiters.forEach(l => l.take(head.cost, now));
+            head.cleanup();
+            head.resolve();
+        }
+    }
+
+    /**
+     * Takes `cost` units right away if every limit has room and nothing is waiting.
+     * @param cost How many units to take. [default: 1]
+     * @returns Whether the units were taken
+     */
+    tryAcquire(cost: number = 1): boolean {
+        this.validate(cost);
+        if (this.queue.length) return false;
+
+        const now = this.clock.now();
+        if (this.waitFor(cost, now) > 0) return false;
+        this.limiters.forEach(l => l.take(cost, now));
+        return true;
+    }
+
+    /**
+     * Waits until every limit has room, then takes `cost` units.
+     * @param cost How many units to take. [default: 1]
+     * @param options A signal to stop waiting
+     * @throws If the queue is full, or the signal aborts while waiting
+     */
+    async acquire(cost: number = 1, options: { signal?: AbortSignal } = {}): Promise<void> {
+        const { signal } = options;
+        this.validate(cost);
+
+        if (signal?.aborted) throw new Error("Operation aborted");
+        if (this.tryAcquire(cost)) return;
+        if (this.queue.length >= this.maxQueue) {
+            throw new Error(`RateLimiter: The queue is full (${this.maxQueue} waiting)`);
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.queue = this.queue.filter(w => w !== waiter);
+                reject(new Error("Operation aborted"));
+                // The head may have changed
+                this.drain();
+            };
+            const waiter: Waiter = {
+                cost,
+                resolve,
+                reject,
+                cleanup: () => signal?.removeEventListener("abort", onAbort)
+            };
+
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.queue.push(waiter);
+            if (this.queue.length === 1) this.drain();
+        });
+    }
+
+    /**
+     * Runs a function once every limit has room.
+     * @param fn The function to run
+     * @param options The cost and a signal to stop waiting
+     */
+    async schedule<T>(fn: () => Promise<T> | T, options: RateLimiterScheduleOptions = {}): Promise<T> {
+        await this.acquire(options.cost, { signal: options.signal });
+        return fn();
+    }
+
+    /**
+     * Rejects every waiting acquisition.
+     * @param reason The error to reject them with
+     */
+    clear(reason: unknown = new Error("RateLimiter: The queue was cleared")) {
+        const waiting = this.queue;
+        this.queue = [];
+        this.drain();
+        waiting.forEach(w => {
+            w.cleanup();
+            w.reject(reason);
+        });
+    }
+}
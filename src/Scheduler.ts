@@ -0,0 +1,205 @@
+import { Loop, type LoopCronOptions, type LoopMetrics, type LoopOptions, type LoopState } from "./Loop.js";
+
+export interface SchedulerOptions {
+    /** How many runs can happen at once across every job. Runs over the cap wait for a free slot. [default: Infinity] */
+    concurrency?: number;
+}
+
+export interface SchedulerJobOptions {
+    /** A group to pause and resume the job with. */
+    group?: string;
+}
+
+export interface SchedulerJobStatus {
+    name: string;
+    group: string | undefined;
+    state: LoopState;
+    /** Whether a run is in progress, not counting runs waiting for a free slot. */
+    running: boolean;
+    metrics: LoopMetrics;
+}
+
+interface Job {
+    name: string;
+    group: string | undefined;
+    loop: Loop<any>;
+    running: boolean;
+}
+
+/**
+ * Manages many named loops, capping how many of their runs happen at once.
+ *
+ * Jobs keep every `Loop` guarantee, so a job never overlaps with itself. A job's run that's waiting for a free slot
+ * counts towards its `timeout`, and is cancelled if the job is stopped.
+ * @example
+ * const scheduler = new Scheduler({ concurrency: 4 });
+ *
+ * scheduler.every("sync", parseTime("10s"), syncData, { group: "sync" });
+ * scheduler.cron("backup", "0 3 * * *", runBackup, { timezone: "Europe/Berlin" });
+ *
+ * process.on("SIGTERM", async () => {
+ *     await scheduler.shutdown();
+ *     process.exit(0);
+ * });
+ */
+export class Scheduler {
+    private concurrency: number;
+    private jobs = new Map<string, Job>();
+    private active = 0;
+    private waiting: (() => void)[] = [];
+    private closed = false;
+
+    /**
+     * @param options Options for the scheduler
+     */
+    constructor(options: SchedulerOptions = {}) {
+        this.concurrency = options.concurrency ?? Infinity;
+    }
+
+    /** Waits for a free slot, giving up if the signal aborts first. */
+    private acquire(signal: AbortSignal): Promise<void> {
+        if (this.active < this.concurrency) {
+            this.active++;
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.waiting = this.waiting.filter(w => w !== waiter);
+                reject(signal.reason);
+            };
+            const waiter = () => {
+                signal.removeEventListener("abort", onAbort);
+                this.active++;
+                resolve();
+            };
+
+            signal.addEventListener("abort", onAbort, { once: true });
+            this.waiting.push(waiter);
+        });
+    }
+
+    private release() {
+        this.active--;
+        this.waiting.shift()?.();
+    }
+
+    private register<T>(
+        name: string,
+        group: string | undefined,
+        create: (fn: (loop: Loop<T>, signal: AbortSignal) => Promise<T>) => Loop<T>,
+        fn: (loop: Loop<T>, signal: AbortSignal) => Promise<T> | T
+    ): Loop<T> {
+        if (this.closed) throw new Error("Scheduler: Can't add jobs after shutdown");
+        if (this.jobs.has(name)) throw new Error(`Scheduler: A job named '${name}' already exists`);
+
+        const job: Job = { name, group, loop: null!, running: false };
+        job.loop = create(async (loop, signal) => {
+            await this.acquire(signal);
+            job.running = true;
+            try {
+                return await fn(loop, signal);
+            } finally {
+                job.running = false;
+                this.release();
+            }
+        });
+
+        this.jobs.set(name, job);
+        return job.loop;
+    }
+
+    private jobsIn(group?: string): Job[] {
+        const jobs = [...this.jobs.values()];
+        return group === undefined ? jobs : jobs.filter(job => job.group === group);
+    }
+
+    /**
+     * Adds a job that runs with a delay between runs.
+     * @param name A unique name for the job
+     * @param delay The delay between runs in milliseconds
+     * @param fn The function to run
+     * @param options Options for the loop and the job's group
+     */
+    every<T = unknown>(
+        name: string,
+        delay: number,
+        fn: (loop: Loop<T>, signal: AbortSignal) => Promise<T> | T,
+        options: LoopOptions & SchedulerJobOptions = {}
+    ): Loop<T> {
+        return this.register(name, options.group, wrapped => new Loop(wrapped, delay, options), fn);
+    }
+
+    /**
+     * Adds a job that runs whenever a cron expression matches.
+     * @param name A unique name for the job
+     * @param expression The cron expression, e.g. "0 3 * * *" for every day at 03:00
+     * @param fn The function to run
+     * @param options Options for the loop and the job's group
+     */
+    cron<T = unknown>(
+        name: string,
+        expression: string,
+        fn: (loop: Loop<T>, signal: AbortSignal) => Promise<T> | T,
+        options: LoopCronOptions & SchedulerJobOptions = {}
+    ): Loop<T> {
+        return this.register(name, options.group, wrapped => Loop.cron(expression, wrapped, options), fn);
+    }
+
+    /**
+     * Returns a job's loop.
+     * @param name The job's name
+     */
+    get(name: string): Loop | undefined {
+        return this.jobs.get(name)?.loop;
+    }
+
+    /**
+     * Stops a job and removes it.
+     * @param name The job's name
+     * @returns Whether the job existed
+     */
+    remove(name: string): boolean {
+        const job = this.jobs.get(name);
+        if (!job) return false;
+
+        job.loop.stop();
+        return this.jobs.delete(name);
+    }
+
+    /**
+     * Pauses every job, or only the jobs in a group.
+     * @param group The group to pause
+     */
+    pause(group?: string) {
+        this.jobsIn(group).forEach(job => job.loop.pause());
+    }
+
+    /**
+     * Resumes every job, or only the jobs in a group.
+     * @param group The group to resume
+     */
+    resume(group?: string) {
+        this.jobsIn(group).forEach(job => job.loop.resume());
+    }
+
+    /** Returns every job's state and metrics. */
+    status(): SchedulerJobStatus[] {
+        return [...this.jobs.values()].map(job => ({
+            name: job.name,
+            group: job.group,
+            state: job.loop.state,
+            running: job.running,
+            metrics: job.loop.metrics()
+        }));
+    }
+
+    /**
+     * Stops every job and waits for their in-flight runs to finish. Runs still waiting for a free slot are cancelled.
+     * No jobs can be added afterwards.
+     */
+    async shutdown(): Promise<void> {
+        this.closed = true;
+        await Promise.all([...this.jobs.values()].map(job => job.loop.stop({ graceful: job.running })));
+    }
+}
@@ -1,105 +1,449 @@
-import fs from "node:fs";
+import EventEmitter from "node:events";
 import path from "node:path";
+import { realClock, type Clock, type ClockOptions, type ClockTimer } from "./Clock.js";
+import { EncryptedAdapter, type EncryptedAdapterOptions } from "./EncryptedAdapter.js";
+import { JsonFileAdapter, LocalStorageAdapter, MemoryAdapter, type StorageAdapter } from "./StorageAdapter.js";
+import type { TypedEmitter } from "./types.js";
 
 type StorePayload<T> = {
     value: T;
     expiry: number | null;
 };
 
-export class Storage {
+/** Transforms every value in a store from one version to the next. Receives and returns values keyed by their key. */
+export type StorageMigration = (data: Record<string, any>) => Record<string, any>;
+
+/** Converts stored payloads to and from the strings kept by the backend. */
+export interface StorageSerializer {
+    serialize(value: unknown): string;
+    deserialize(text: string): unknown;
+}
+
+/** Reserved key holding the schema version of a store. */
+const VERSION_KEY = "__version__";
+
+/** Marks a JSON object as an encoded rich type. */
+const TYPE_TAG = "$qznt";
+
+/**
+ * A JSON serializer that round-trips `Date`, `Map`, `Set`, `BigInt` and `undefined`.
+ * Rich types are encoded as tagged objects, everything else is plain JSON.
+ * @example
+ * taggedSerializer.serialize({ at: new Date(0) }); // '{"at":{"$qznt":"Date","v":0}}'
+ */
+export const taggedSerializer: StorageSerializer = {
+    serialize(value: unknown): string {
+        return JSON.stringify(value, function (this: any, key: string, jsonValue: unknown) {
+            // Date#toJSON runs before the replacer, so inspect the original value on the holder instead
+            const raw = this[key];
+            if (raw instanceof Date) return { [TYPE_TAG]: "Date", v: raw.getTime() };
+            if (raw instanceof Map) return { [TYPE_TAG]: "Map", v: [...raw] };
+            if (raw instanceof Set) return { [TYPE_TAG]: "Set", v: [...raw] };
+            if (typeof raw === "bigint") return { [TYPE_TAG]: "BigInt", v: raw.toString() };
+            if (raw === undefined) return { [TYPE_TAG]: "undefined" };
+            return jsonValue;
+        });
+    },
+
+    deserialize(text: string): unknown {
+        // A JSON.parse reviver can't produce undefined without deleting the key, so revive with a manual walk
+        const revive = (value: any): any => {
+            if (Array.isArray(value)) return value.map(revive);
+            if (value === null || typeof value !== "object") return value;
+
+            switch (value[TYPE_TAG]) {
+                case "Date":
+                    return new Date(value.v);
+                case "Map":
+                    return new Map(revive(value.v));
+                case "Set":
+                    return new Set(revive(value.v));
+                case "BigInt":
+                    return BigInt(value.v);
+                case "undefined":
+                    return undefined;
+            }
+
+            // Object.fromEntries defines own properties, so a stored "__proto__" key can't replace the prototype
+            return Object.fromEntries(Object.keys(value).map(k => [k, revive(value[k])]));
+        };
+
+        return revive(JSON.parse(text));
+    }
+};
+
+export interface StorageEvents {
+    change: [key: string, value: unknown];
+    remove: [key: string];
+    clear: [];
+}
+
+export interface StorageOptions extends ClockOptions {
+    /**
+     * The name of the store.
+     * Used as the file name for the default Node.js backend, and as the key prefix for the default browser backend.
+     * Browser stores without a name use the prefix "qznt". Keys saved unprefixed by qznt 2.0 and earlier aren't read.
+     */
+    name?: string;
+    /** The directory for the default Node.js backend. Defaults to current working directory */
+    directory?: string;
+    /** How often the default Node.js backend flushes coalesced writes to disk in milliseconds. [default: 0 (every write)] */
+    flushInterval?: number;
+    /** The backend to store data in. Overrides the default backend. */
+    adapter?: StorageAdapter;
+    /** Converts values to and from strings. [default: taggedSerializer] */
+    serializer?: StorageSerializer;
+    /** The schema version of the stored data. Stores saved without a version are treated as version 1. */
+    version?: number;
+    /**
+     * Migrations keyed by the version they upgrade to, e.g. `2` upgrades a version 1 store to version 2.
+     * They run in order when the store is loaded with an older version.
+     */
+    migrations?: Record<number, StorageMigration>;
+    /**
+     * Picks up changes made by other processes or browser tabs and emits events for them.
+     * Uses file watching in Node.js and the `storage` event in the browser.
+     */
+    sync?: boolean;
+    /**
+     * Encrypts values, and optionally key names, with AES-256-GCM derived from a secret.
+     * In the browser, wait for `ready` before reading from an encrypted store.
+     */
+    encryption?: EncryptedAdapterOptions;
+    /**
+     * The interval in milliseconds to sweep for expired entries.
+     * Each sweep samples a handful of keys, so expired entries are removed even if they're never read.
+     * Set to 0 to disable. [default: 60000 (1 minute)]
+     */
+    sweepInterval?: number;
+}
+
+const TypedEmitterBase = EventEmitter as { new (): TypedEmitter<StorageEvents> };
+
+export class Storage extends TypedEmitterBase {
+    /** Resolves once the store has loaded. Only needed in the browser when encryption is enabled. */
+    readonly ready: Promise<void>;
+
     private isNode = typeof window === "undefined";
-    private filePath: string | null = null;
-    private memoryCache = new Map<string, string>();
+    private adapter: StorageAdapter;
+    private serializer: StorageSerializer;
+    private version: number | null;
+    private unwatch: (() => void) | null = null;
+    private clock: Clock;
+    private sweepTimer: ClockTimer | null = null;
+    private sweepCursor = 0;
+
+    /** Picks localStorage in the browser, a JSON file in Node.js, or memory if there's no file name. */
+    private createDefaultAdapter({ name, directory, flushInterval }: StorageOptions): StorageAdapter {
+        if (!this.isNode && window.localStorage) return new LocalStorageAdapter(name ?? "qznt");
+        if (!name) return new MemoryAdapter();
 
-    private loadFromFile() {
-        if (this.filePath && fs.existsSync(this.filePath)) {
+        const fileName = name.endsWith(".json") ? name : `${name}.json`;
+        return new JsonFileAdapter(path.join(directory ?? process.cwd(), fileName), { flushInterval });
+    }
+
+    private read<T>(key: string): StorePayload<T> | null {
+        if (key === VERSION_KEY) return null;
+        const raw = this.adapter.get(key);
+        if (!raw) return null;
+
+        const payload = this.serializer.deserialize(raw) as StorePayload<T>;
+        if (this.isExpired(payload)) {
+            this.remove(key);
+            return null;
+        }
+        return payload;
+    }
+
+    private isExpired(payload: StorePayload<unknown>): boolean {
+        return !!payload.expiry && this.clock.now() > payload.expiry;
+    }
+
+    /** Checks the next batch of keys for expired entries, picking up where the previous sweep left off. */
+    private sweep() {
+        const keys = this.adapter.keys();
+        if (keys.length === 0) return;
+
+        const maxKeysToScan = 20; // Limit per cycle to avoid CPU spikes
+        for (let i = 0; i < Math.min(maxKeysToScan, keys.length); i++) {
+            const key = keys[(this.sweepCursor + i) % keys.length]!;
             try {
-                const data = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
-                Object.entries(data).forEach(([k, v]) => this.memoryCache.set(k, JSON.stringify(v)));
-            } catch (err) {
-                console.error(`Store: Failed to load file '${this.filePath}'`, err);
+                // Reading an expired entry removes it
+                this.read(key);
+            } catch {
+                // Skip entries that can't be read, throwing from the timer would crash the process.
+                // Reading them directly still throws
             }
         }
+        this.sweepCursor = (this.sweepCursor + maxKeysToScan) % keys.length;
     }
 
-    private persist() {
-        if (this.isNode && this.filePath) {
-            const out: Record<string, any> = {};
-            this.memoryCache.forEach((v, k) => (out[k] = JSON.parse(v)));
-            fs.writeFileSync(this.filePath, JSON.stringify(out, null, 2));
+    /** Brings stored data up to the configured version, leaving it untouched if any migration fails. */
+    private migrate(version: number, migrations: Record<number, StorageMigration>) {
+        const keys = this.adapter.keys().filter(key => key !== VERSION_KEY);
+        const storedVersion = Number(this.adapter.get(VERSION_KEY) ?? 1);
+
+        if (keys.length === 0 || storedVersion === version) return this.stampVersion();
+        if (storedVersion > version) {
+            throw new Error(`Storage: Stored data is version ${storedVersion}, which is newer than version ${version}`);
+        }
+
+        const payloads = new Map<string, StorePayload<unknown>>();
+        keys.forEach(key => payloads.set(key, this.serializer.deserialize(this.adapter.get(key)!) as StorePayload<unknown>));
+
+        let data: Record<string, any> = Object.fromEntries([...payloads].map(([key, payload]) => [key, payload.value]));
+        try {
+            for (let v = storedVersion + 1; v <= version; v++) {
+                const migration = migrations[v];
+                if (!migration) throw new Error(`No migration to version ${v}`);
+                data = migration(data);
+            }
+        } catch (err) {
+            let backup: string | undefined;
+            try {
+                backup = this.adapter.backup?.();
+            } catch {
+                // Keep the migration error, e.g. when there's no file to back up yet
+            }
+            throw new Error(
+                `Storage: Failed to migrate from version ${storedVersion} to ${version}` +
+                    (backup ? `. The original data was backed up to '${backup}'` : ""),
+                { cause: err }
+            );
+        }
+
+        const writeBack = () => {
+            for (const key of keys) {
+                if (!(key in data)) this.adapter.remove(key);
+            }
+            for (const [key, value] of Object.entries(data)) {
+                // Migrated keys keep their original expiry
+                const payload: StorePayload<unknown> = { value, expiry: payloads.get(key)?.expiry ?? null };
+                this.adapter.set(key, this.serializer.serialize(payload));
+            }
+            this.stampVersion();
+        };
+
+        // Write the migrated data together with its version where the backend can, so a crash midway
+        // can't leave migrated values marked with the old version to be migrated again
+        if (this.adapter.batch) {
+            this.adapter.batch(writeBack);
+        } else {
+            writeBack();
         }
     }
 
+    /** Emits events for keys changed outside of this instance. */
+    private onExternalChange(keys: string[] | null) {
+        if (keys === null) return this.emit("clear");
+
+        for (const key of keys) {
+            if (key === VERSION_KEY) continue;
+            if (!this.adapter.has(key)) {
+                this.emit("remove", key);
+                continue;
+            }
+
+            let payload: StorePayload<unknown> | null;
+            try {
+                payload = this.read(key);
+            } catch (err) {
+                // A corrupt value from another process mustn't throw out of the watcher
+                console.error(`Storage: Skipped an external change to '${key}'`, err);
+                continue;
+            }
+            if (payload) this.emit("change", key, payload.value);
+        }
+    }
+
+    /** Stores the configured version, skipping the write if it's already stored. */
+    private stampVersion() {
+        if (this.version === null || this.adapter.get(VERSION_KEY) === String(this.version)) return;
+        this.adapter.set(VERSION_KEY, String(this.version));
+    }
+
     /**
      * A lightweight, high-performant persistent storage system.
-     * Uses JSON files in Node.js, localStorage in the browser
-     * @param fileName Only used in Node.js to create a persistent .json file
+     * Uses JSON files in Node.js, localStorage in the browser, or any `StorageAdapter` you provide.
+     * @param fileName The .json file name in Node.js, or the key prefix in the browser
      * @param directory The directory for the file. Defaults to current working directory
+     * @example
+     * // Default backend
+     * const settings = new Storage("settings");
+     * @example
+     * // Explicit backend
+     * const sessions = new Storage({ adapter: new DirectoryAdapter("./data/sessions") });
+     * @example
+     * // Encrypted at rest
+     * const tokens = new Storage({ name: "tokens", encryption: { secret: process.env.STORE_SECRET!, encryptKeys: true } });
+     * @example
+     * // Versioned data
+     * const settings = new Storage({
+     *     name: "settings",
+     *     version: 2,
+     *     migrations: {
+     *         // Version 1 stored the theme as a boolean
+     *         2: ({ darkMode, ...data }) => ({ ...data, theme: darkMode ? "dark" : "light" })
+     *     }
+     * });
      */
-    constructor(fileName?: string, directory: string = process.cwd()) {
-        if (this.isNode && fileName) {
-            this.filePath = path.join(directory, fileName.endsWith(".json") ? fileName : `${fileName}.json`);
-            this.loadFromFile();
-        }
-    }
+    constructor(fileName?: string, directory?: string);
+    constructor(options: StorageOptions);
+    constructor(fileNameOrOptions?: string | StorageOptions, directory?: string) {
+        super();
+        const options: StorageOptions =
+            typeof fileNameOrOptions === "object" ? fileNameOrOptions : { name: fileNameOrOptions, directory };
+        this.adapter = options.adapter ?? this.createDefaultAdapter(options);
+        if (options.encryption) this.adapter = new EncryptedAdapter(this.adapter, options.encryption);
+        this.serializer = options.serializer ?? taggedSerializer;
+        this.version = options.version ?? null;
+        this.clock = options.clock ?? realClock;
 
-    has(key: string): boolean {
-        if (!this.isNode && window.localStorage) {
-            return localStorage.getItem(key) !== null;
-        }
-        return this.memoryCache.has(key);
-    }
+        const init = () => {
+            if (this.version !== null) this.migrate(this.version, options.migrations ?? {});
+            if (options.sync && this.adapter.watch) this.unwatch = this.adapter.watch(keys => this.onExternalChange(keys));
 
-    get<T>(key: string): T | null {
-        let raw: string | null = null;
+            const sweepInterval = options.sweepInterval ?? 60_000;
+            if (sweepInterval > 0) {
+                this.sweepTimer = this.clock.setInterval(() => this.sweep(), sweepInterval);
+                // In Node.js, allow the process to exit even if this interval is running
+                this.clock.unref?.(this.sweepTimer);
+            }
+        };
 
-        if (!this.isNode && window.localStorage) {
-            raw = localStorage.getItem(key);
+        // Run synchronously when possible, so migration errors are thrown from the constructor
+        if (this.adapter.ready) {
+            this.ready = this.adapter.ready.then(init);
         } else {
-            raw = this.memoryCache.get(key) || null;
+            init();
+            this.ready = Promise.resolve();
         }
+    }
 
-        if (!raw) return null;
+    has(key: string): boolean {
+        return this.read(key) !== null;
+    }
 
-        const payload: StorePayload<T> = JSON.parse(raw);
-        if (payload.expiry && Date.now() > payload.expiry) {
-            this.remove(key);
-            this.persist();
-            return null;
-        }
-        return payload.value;
+    get<T>(key: string): T | null {
+        return this.read<T>(key)?.value ?? null;
     }
 
     set<T>(key: string, value: T, ttl?: number): void {
+        if (key === VERSION_KEY) throw new Error(`Storage: '${VERSION_KEY}' is a reserved key`);
+
         const payload: StorePayload<T> = {
             value,
-            expiry: ttl ? Date.now() + ttl : null
+            expiry: ttl ? this.clock.now() + ttl : null
         };
-        const serialized = JSON.stringify(payload);
-
-        if (!this.isNode && window.localStorage) {
-            localStorage.setItem(key, serialized);
-        } else {
-            this.memoryCache.set(key, serialized);
-            this.persist();
-        }
+        this.adapter.set(key, this.serializer.serialize(payload));
+        this.emit("change", key, value);
     }
 
     remove(key: string): void {
-        if (!this.isNode && window.localStorage) {
-            localStorage.removeItem(key);
-        } else {
-            this.memoryCache.delete(key);
-            this.persist();
-        }
+        if (key === VERSION_KEY || !this.adapter.has(key)) return;
+        this.adapter.remove(key);
+        this.emit("remove", key);
     }
 
+    /** Removes every key in this store. Other stores sharing the same origin or directory are left alone. */
     clear(): void {
-        if (!this.isNode && window.localStorage) {
-            localStorage.clear();
-        } else {
-            this.memoryCache.clear();
-            this.persist();
+        this.adapter.clear();
+        this.stampVersion();
+        this.emit("clear");
+    }
+
+    /**
+     * Subscribes to changes of a single key, including changes from other processes or tabs when `sync` is enabled.
+     * @param key The key to watch
+     * @param listener Called with the new value, or null when the key is removed
+     * @returns A function to unsubscribe
+     * @example
+     * const unwatch = settings.watch<string>("theme", theme => applyTheme(theme ?? "light"));
+     */
+    watch<T>(key: string, listener: (value: T | null) => void): () => void {
+        const onChange = (changedKey: string, value: unknown) => {
+            if (changedKey === key) listener(value as T);
+        };
+        const onRemove = (removedKey: string) => {
+            if (removedKey === key) listener(null);
+        };
+        const onClear = () => listener(null);
+
+        this.on("change", onChange);
+        this.on("remove", onRemove);
+        this.on("clear", onClear);
+        return () => {
+            this.off("change", onChange);
+            this.off("remove", onRemove);
+            this.off("clear", onClear);
+        };
+    }
+
+    /** Returns every key that hasn't expired. */
+    keys(): string[] {
+        return this.entries().map(([key]) => key);
+    }
+
+    /** Returns every key/value pair that hasn't expired. */
+    entries<T = unknown>(): [string, T][] {
+        const entries: [string, T][] = [];
+        for (const key of this.adapter.keys()) {
+            if (key === VERSION_KEY) continue;
+            const payload = this.read<T>(key);
+            if (payload) entries.push([key, payload.value]);
+        }
+        return entries;
+    }
+
+    /** Returns every value that hasn't expired, keyed by its key. */
+    getAll<T = unknown>(): Record<string, T> {
+        return Object.fromEntries(this.entries<T>());
+    }
+
+    /** The number of keys that haven't expired. */
+    get size(): number {
+        return this.entries().length;
+    }
+
+    /**
+     * Removes every expired entry.
+     * @returns The keys that were removed
+     */
+    prune(): string[] {
+        const removed: string[] = [];
+        for (const key of this.adapter.keys()) {
+            if (key === VERSION_KEY) continue;
+
+            const raw = this.adapter.get(key);
+            if (raw && this.isExpired(this.serializer.deserialize(raw) as StorePayload<unknown>)) {
+                this.remove(key);
+                removed.push(key);
+            }
         }
+        return removed;
+    }
+
+    /**
+     * Prunes expired entries and has the backend rewrite its storage without them.
+     * @returns The keys that were removed
+     */
+    compact(): string[] {
+        const removed = this.prune();
+        this.adapter.compact?.();
+        return removed;
+    }
+
+    /** Writes any buffered changes to the backend immediately. */
+    flush(): void {
+        this.adapter.flush?.();
+    }
+
+    /** Flushes pending writes and releases the backend. Call this before shutting down. */
+    close(): void {
+        if (this.sweepTimer !== null) this.clock.clearInterval(this.sweepTimer);
+        this.sweepTimer = null;
+        this.unwatch?.();
+        this.unwatch = null;
+        this.adapter.close?.();
     }
 }
@@ -0,0 +1,452 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * A synchronous key/value backend for `Storage`.
+ *
+ * Adapters only move strings around, `Storage` takes care of serialization and TTLs.
+ * @example
+ * // A SQLite adapter using better-sqlite3
+ * class SqliteAdapter implements StorageAdapter {
+ *     constructor(private db: Database) {
+ *         db.exec("CREATE TABLE IF NOT EXISTS store (key TEXT PRIMARY KEY, value TEXT)");
+ *     }
+ *     get(key: string) {
+ *         return this.db.prepare("SELECT value FROM store WHERE key = ?").pluck().get(key) ?? null;
+ *     }
+ *     // ...
+ * }
+ *
+ * const store = new Storage({ adapter: new SqliteAdapter(db) });
+ */
+export interface StorageAdapter {
+    /** Resolves once an adapter that loads asynchronously can serve reads. */
+    ready?: Promise<void>;
+    /** Returns the raw value for a key, or null if it doesn't exist. */
+    get(key: string): string | null;
+    /** Stores a raw value under a key. */
+    set(key: string, value: string): void;
+    /** Checks if a key exists. */
+    has(key: string): boolean;
+    /** Removes a key. */
+    remove(key: string): void;
+    /** Removes every key owned by this adapter. */
+    clear(): void;
+    /** Returns every key owned by this adapter. */
+    keys(): string[];
+    /** Writes any buffered changes to the backend. */
+    flush?(): void;
+    /** Runs a function and writes every change it makes to the backend at once, so a crash can't keep only some. */
+    batch?(fn: () => void): void;
+    /** Flushes and releases any resources held by the adapter. */
+    close?(): void;
+    /** Copies the stored data somewhere safe, e.g. before a failed migration. Returns where it went. */
+    backup?(): string;
+    /** Rewrites the backend's storage without dead data, e.g. after expired entries were pruned. */
+    compact?(): void;
+    /**
+     * Listens for changes made outside this adapter, e.g. by another process or browser tab.
+     * The listener receives the changed keys, or null if every key was removed. Returns a function to stop listening.
+     */
+    watch?(listener: (keys: string[] | null) => void): () => void;
+}
+
+export interface JsonFileAdapterOptions {
+    /**
+     * Coalesces writes and flushes them at most once per interval in milliseconds.
+     * Pending writes are also flushed when the process exits.
+     * Set to 0 to write on every change. [default: 0]
+     */
+    flushInterval?: number;
+    /** How often `watch` polls the file for changes in milliseconds. [default: 1000] */
+    watchInterval?: number;
+}
+
+/**
+ * Nests JSON values as-is to keep the file readable, and falls back to the raw string for anything else.
+ * Only canonical JSON is nested, since e.g. "1.0" or large integers wouldn't read back as the same string.
+ */
+function parseNested(raw: string): unknown {
+    try {
+        const parsed = JSON.parse(raw);
+        return typeof parsed !== "string" && JSON.stringify(parsed) === raw ? parsed : raw;
+    } catch {
+        return raw;
+    }
+}
+
+/** How old another process's temp file must be before it's considered left behind rather than mid-write. */
+const STALE_TEMP_MS = 60_000;
+
+/**
+ * Removes temp files left behind by writes that crashed before their rename.
+ * Other processes sharing the directory may be writing theirs, so only this process's and old ones are removed.
+ */
+function removeStaleTempFiles(directory: string, prefix: string = ""): void {
+    const now = Date.now();
+    for (const fn of fs.readdirSync(directory)) {
+        if (!fn.startsWith(prefix) || !fn.endsWith(".tmp")) continue;
+
+        const tmpPath = path.join(directory, fn);
+        try {
+            if (fn.endsWith(`.${process.pid}.tmp`) || now - fs.statSync(tmpPath).mtimeMs > STALE_TEMP_MS) {
+                fs.rmSync(tmpPath, { force: true });
+            }
+        } catch {
+            // Another process renamed it into place in the meantime
+        }
+    }
+}
+
+/**
+ * Writes to a temp file first and renames it into place, so a crash mid-write never leaves a truncated file.
+ * The temp file is synced to disk before the rename, so after a power loss the file holds either the old or the new data.
+ */
+function writeFileAtomic(filePath: string, data: string): void {
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    const fd = fs.openSync(tmpPath, "w");
+    try {
+        fs.writeFileSync(fd, data);
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, filePath);
+}
+
+/** Adapters with coalesced writes waiting to be flushed. A single exit hook flushes all of them. */
+const unflushed = new Set<JsonFileAdapter>();
+let exitHookInstalled = false;
+
+/** Makes sure an adapter's pending writes are flushed if the process exits before its timer fires. */
+function flushOnExit(adapter: JsonFileAdapter): void {
+    unflushed.add(adapter);
+    if (exitHookInstalled) return;
+
+    exitHookInstalled = true;
+    process.on("exit", () => unflushed.forEach(a => a.flush()));
+}
+
+/** Keeps everything in memory. Nothing survives a restart. */
+export class MemoryAdapter implements StorageAdapter {
+    private data = new Map<string, string>();
+
+    get(key: string): string | null {
+        return this.data.get(key) ?? null;
+    }
+
+    set(key: string, value: string): void {
+        this.data.set(key, value);
+    }
+
+    has(key: string): boolean {
+        return this.data.has(key);
+    }
+
+    remove(key: string): void {
+        this.data.delete(key);
+    }
+
+    clear(): void {
+        this.data.clear();
+    }
+
+    keys(): string[] {
+        return [...this.data.keys()];
+    }
+}
+
+/** Keeps every key in a single JSON file, loaded into memory once. (Node.js only) */
+export class JsonFileAdapter implements StorageAdapter {
+    private filePath: string;
+    private flushInterval: number;
+    private watchInterval: number;
+    private data: Map<string, string>;
+    /** Keys changed since the last flush. External reloads never overwrite these. */
+    private pendingKeys = new Set<string>();
+    private flushTimer: NodeJS.Timeout | null = null;
+    /** Whether writes are held back until the current `batch` ends. */
+    private batching = false;
+
+    /**
+     * @param filePath The path to the .json file. It's created on the first write
+     * @param options Options for flushing writes to disk
+     */
+    constructor(filePath: string, options: JsonFileAdapterOptions = {}) {
+        this.filePath = filePath;
+        this.flushInterval = options.flushInterval ?? 0;
+        this.watchInterval = options.watchInterval ?? 1000;
+        this.data = this.readFile() ?? new Map();
+    }
+
+    /** Returns the file's contents, an empty map if it doesn't exist, or null if it couldn't be read. */
+    private readFile(): Map<string, string> | null {
+        const data = new Map<string, string>();
+        if (!fs.existsSync(this.filePath)) return data;
+
+        try {
+            const json = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+            // Values that weren't valid JSON were written as plain strings
+            Object.entries(json).forEach(([k, v]) => data.set(k, typeof v === "string" ? v : JSON.stringify(v)));
+            return data;
+        } catch (err) {
+            console.error(`JsonFileAdapter: Failed to load file '${this.filePath}'`, err);
+            return null;
+        }
+    }
+
+    /** Merges changes made to the file by someone else, returning the keys that changed. */
+    private reload(): string[] {
+        const next = this.readFile();
+        if (!next) return [];
+
+        const changed: string[] = [];
+        for (const [key, value] of next) {
+            if (this.pendingKeys.has(key) || this.data.get(key) === value) continue;
+            this.data.set(key, value);
+            changed.push(key);
+        }
+        for (const key of this.data.keys()) {
+            if (this.pendingKeys.has(key) || next.has(key)) continue;
+            this.data.delete(key);
+            changed.push(key);
+        }
+        return changed;
+    }
+
+    private persist(...keys: string[]) {
+        keys.forEach(key => this.pendingKeys.add(key));
+        if (this.batching) return;
+        if (this.flushInterval <= 0) return this.flush();
+
+        // Coalesce every write until the timer fires into a single flush
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => this.flush(), this.flushInterval);
+        this.flushTimer.unref();
+        flushOnExit(this);
+    }
+
+    flush(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        unflushed.delete(this);
+        if (this.pendingKeys.size === 0) return;
+        this.writeFile();
+    }
+
+    batch(fn: () => void): void {
+        if (this.batching) return fn();
+
+        this.batching = true;
+        try {
+            fn();
+        } finally {
+            this.batching = false;
+            // One write for the whole batch, or the usual coalesced one
+            this.persist();
+        }
+    }
+
+    private writeFile() {
+        const out: Record<string, any> = {};
+        this.data.forEach((v, k) => (out[k] = parseNested(v)));
+        writeFileAtomic(this.filePath, JSON.stringify(out, null, 2));
+        this.pendingKeys.clear();
+    }
+
+    compact(): void {
+        this.writeFile();
+        removeStaleTempFiles(path.dirname(this.filePath), `${path.basename(this.filePath)}.`);
+    }
+
+    watch(listener: (keys: string[] | null) => void): () => void {
+        // Polling survives the file being replaced by atomic renames, which fs.watch doesn't
+        const onStat = (curr: fs.Stats, prev: fs.Stats) => {
+            if (curr.mtimeMs === prev.mtimeMs && curr.ino === prev.ino) return;
+            const changed = this.reload();
+            if (changed.length) listener(changed);
+        };
+
+        fs.watchFile(this.filePath, { interval: this.watchInterval, persistent: false }, onStat);
+        return () => fs.unwatchFile(this.filePath, onStat);
+    }
+
+    close(): void {
+        this.flush();
+    }
+
+    backup(): string {
+        const backupPath = `${this.filePath}.${Date.now()}.bak`;
+        fs.copyFileSync(this.filePath, backupPath);
+        return backupPath;
+    }
+
+    get(key: string): string | null {
+        return this.data.get(key) ?? null;
+    }
+
+    set(key: string, value: string): void {
+        this.data.set(key, value);
+        this.persist(key);
+    }
+
+    has(key: string): boolean {
+        return this.data.has(key);
+    }
+
+    remove(key: string): void {
+        if (this.data.delete(key)) this.persist(key);
+    }
+
+    clear(): void {
+        const keys = [...this.data.keys()];
+        this.data.clear();
+        this.persist(...keys);
+    }
+
+    keys(): string[] {
+        return [...this.data.keys()];
+    }
+}
+
+/** Keeps each key in its own file inside a directory. Suited to stores with large values. (Node.js only) */
+export class DirectoryAdapter implements StorageAdapter {
+    private directory: string;
+
+    /**
+     * @param directory The directory to store files in. It's created if it doesn't exist
+     */
+    constructor(directory: string) {
+        this.directory = directory;
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    private fileFor(key: string): string {
+        return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+    }
+
+    backup(): string {
+        const backupPath = `${this.directory}.${Date.now()}.bak`;
+        fs.cpSync(this.directory, backupPath, { recursive: true });
+        return backupPath;
+    }
+
+    compact(): void {
+        removeStaleTempFiles(this.directory);
+    }
+
+    get(key: string): string | null {
+        try {
+            return fs.readFileSync(this.fileFor(key), "utf-8");
+        } catch {
+            return null;
+        }
+    }
+
+    set(key: string, value: string): void {
+        writeFileAtomic(this.fileFor(key), value);
+    }
+
+    has(key: string): boolean {
+        return fs.existsSync(this.fileFor(key));
+    }
+
+    remove(key: string): void {
+        fs.rmSync(this.fileFor(key), { force: true });
+    }
+
+    clear(): void {
+        this.keys().forEach(key => this.remove(key));
+    }
+
+    keys(): string[] {
+        return fs
+            .readdirSync(this.directory)
+            .filter(fn => fn.endsWith(".json"))
+            .map(fn => decodeURIComponent(fn.slice(0, -".json".length)));
+    }
+}
+
+/**
+ * Wraps a Web Storage area, such as `localStorage` or `sessionStorage`. (Browser only)
+ *
+ * Keys are namespaced as `prefix:key`, so several stores can share an origin and `clear()` never touches
+ * keys it doesn't own.
+ */
+export class WebStorageAdapter implements StorageAdapter {
+    private storage: globalThis.Storage;
+    private prefix: string;
+
+    /**
+     * @param storage The Web Storage area to use
+     * @param prefix The namespace for this store's keys. An empty prefix claims every key on the origin
+     */
+    constructor(storage: globalThis.Storage, prefix: string = "") {
+        this.storage = storage;
+        this.prefix = prefix ? `${prefix}:` : "";
+    }
+
+    get(key: string): string | null {
+        return this.storage.getItem(this.prefix + key);
+    }
+
+    set(key: string, value: string): void {
+        this.storage.setItem(this.prefix + key, value);
+    }
+
+    has(key: string): boolean {
+        return this.storage.getItem(this.prefix + key) !== null;
+    }
+
+    remove(key: string): void {
+        this.storage.removeItem(this.prefix + key);
+    }
+
+    clear(): void {
+        if (!this.prefix) return this.storage.clear();
+        this.keys().forEach(key => this.remove(key));
+    }
+
+    watch(listener: (keys: string[] | null) => void): () => void {
+        // The storage event only fires in other tabs, so this never reports our own writes
+        const onStorage = (event: StorageEvent) => {
+            if (event.storageArea !== this.storage) return;
+            if (event.key === null) return listener(null);
+            if (event.key.startsWith(this.prefix)) listener([event.key.slice(this.prefix.length)]);
+        };
+
+        window.addEventListener("storage", onStorage);
+        return () => window.removeEventListener("storage", onStorage);
+    }
+
+    keys(): string[] {
+        const keys: string[] = [];
+        for (let i = 0; i < this.storage.length; i++) {
+            const key = this.storage.key(i);
+            if (key !== null && key.startsWith(this.prefix)) keys.push(key.slice(this.prefix.length));
+        }
+        return keys;
+    }
+}
+
+/** Persists across browser sessions using `localStorage`. (Browser only) */
+export class LocalStorageAdapter extends WebStorageAdapter {
+    /**
+     * @param prefix The namespace for this store's keys
+     */
+    constructor(prefix?: string) {
+        super(window.localStorage, prefix);
+    }
+}
+
+/** Persists until the browser tab is closed using `sessionStorage`. (Browser only) */
+export class SessionStorageAdapter extends WebStorageAdapter {
+    /**
+     * @param prefix The namespace for this store's keys
+     */
+    constructor(prefix?: string) {
+        super(window.sessionStorage, prefix);
+    }
+}
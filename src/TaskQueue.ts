@@ -0,0 +1,250 @@
+import EventEmitter from "node:events";
+import { retryPromise, TimeoutError, type RetryOptions } from "./async.js";
+import { realClock, type Clock, type ClockOptions } from "./Clock.js";
+import type { TypedEmitter } from "./types.js";
+
+/** Retry options for tasks. The queue supplies the signal, timeout and clock itself. */
+export type TaskRetryOptions = Omit<RetryOptions, "signal" | "timeout" | "clock">;
+
+export interface TaskQueueOptions extends ClockOptions {
+    /** How many tasks run at once. [default: 1] */
+    concurrency?: number;
+    /** The default timeout for each attempt of a task in milliseconds. */
+    timeout?: number;
+    /** The default retry options for tasks. Tasks aren't retried unless this or the task's own `retry` is set. */
+    retry?: TaskRetryOptions;
+}
+
+export interface TaskOptions {
+    /** A name to tell the task apart in events. */
+    name?: string;
+    /** Higher priority tasks run first, and tasks with equal priority in the order they were added. [default: 0] */
+    priority?: number;
+    /**
+     * Fails an attempt that takes longer than this many milliseconds with a `TimeoutError`, and aborts its signal.
+     * The queue moves on right away, so a task that ignores the signal keeps running in the background.
+     */
+    timeout?: number;
+    /** Retries the task with `retryPromise`. When it gives up, the task fails with a `RetryError`. */
+    retry?: TaskRetryOptions;
+    /** An AbortSignal to cancel the task, whether it's waiting or running. */
+    signal?: AbortSignal;
+}
+
+export interface TaskInfo {
+    /** A unique id, increasing in the order tasks were added. */
+    id: number;
+    name: string | undefined;
+    priority: number;
+}
+
+export interface TaskQueueEvents {
+    active: [task: TaskInfo];
+    completed: [result: unknown, task: TaskInfo];
+    failed: [error: unknown, task: TaskInfo];
+}
+
+interface QueuedTask {
+    info: TaskInfo;
+    run: () => Promise<void>;
+    /** Rejects a task that never started. */
+    cancel: (reason: unknown) => void;
+}
+
+const TypedEmitterBase = EventEmitter as { new (): TypedEmitter<TaskQueueEvents> };
+
+/**
+ * Runs async tasks with limited concurrency, highest priority first.
+ * @example
+ * const queue = new TaskQueue({ concurrency: 4, timeout: 30_000, retry: { attempts: 2 } });
+ * queue.on("failed", (err, task) => console.error(`Task ${task.name} failed`, err));
+ *
+ * queue.add(signal => sendEmail(user, { signal }), { name: "welcome-email" });
+ * queue.add(() => rebuildSearchIndex(), { priority: 10 });
+ *
+ * await queue.onIdle();
+ */
+export class TaskQueue extends TypedEmitterBase {
+    private concurrency: number;
+    private options: TaskQueueOptions;
+    private clock: Clock;
+    private queue: QueuedTask[] = [];
+    private running = 0;
+    private paused = false;
+    private nextId = 1;
+    private emptyWaiters: (() => void)[] = [];
+    private idleWaiters: (() => void)[] = [];
+
+    /**
+     * @param options Options for concurrency, and defaults for every task
+     */
+    constructor(options: TaskQueueOptions = {}) {
+        super();
+        this.concurrency = options.concurrency ?? 1;
+        this.options = options;
+        this.clock = options.clock ?? realClock;
+    }
+
+    /** How many tasks are waiting to run. */
+    get size(): number {
+        return this.queue.length;
+    }
+
+    /** How many tasks are running. */
+    get pending(): number {
+        return this.running;
+    }
+
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    /** Emits an event, swallowing listener errors so they can't leave a task unsettled or stall the queue. */
+    private safeEmit<K extends keyof TaskQueueEvents>(event: K, ...args: TaskQueueEvents[K]) {
+        try {
+            this.emit(event, ...args);
+        } catch {}
+    }
+
+    /** Starts as many waiting tasks as there are free slots, and settles `onEmpty`/`onIdle` promises. */
+    private next() {
+        while (!this.paused && this.running < this.concurrency && this.queue.length) {
+            const task = this.queue.shift()!;
+            this.running++;
+            task.run().finally(() => {
+                this.running--;
+                this.next();
+            });
+        }
+
+        if (this.queue.length === 0) {
+            this.emptyWaiters.splice(0).forEach(resolve => resolve());
+            if (this.running === 0) this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+    }
+
+    /** Runs one attempt of a task, failing it if it takes longer than `timeout`. */
+    private attempt<T>(
+        fn: (signal: AbortSignal) => Promise<T> | T,
+        timeout: number | undefined,
+        signal: AbortSignal | undefined
+    ): Promise<T> {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal!.reason);
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        return new Promise<T>((resolve, reject) => {
+            const timer =
+                timeout === undefined
+                    ? null
+                    : this.clock.setTimeout(() => {
+                          const err = new TimeoutError(`TaskQueue: Task timed out after ${timeout}ms`);
+                          controller.abort(err);
+                          reject(err);
+                      }, timeout);
+
+            Promise.resolve()
+                .then(() => fn(controller.signal))
+                .then(resolve, reject)
+                .finally(() => {
+                    if (timer !== null) this.clock.clearTimeout(timer);
+                    signal?.removeEventListener("abort", onAbort);
+                });
+        });
+    }
+
+    private execute<T>(fn: (signal: AbortSignal) => Promise<T> | T, options: TaskOptions): Promise<T> {
+        const timeout = options.timeout ?? this.options.timeout;
+        const retry = options.retry ?? this.options.retry;
+        if (!retry) return this.attempt(fn, timeout, options.signal);
+
+        return retryPromise(signal => this.attempt(fn, timeout, signal), {
+            ...retry,
+            signal: options.signal,
+            clock: this.clock
+        });
+    }
+
+    /**
+     * Adds a task to the queue.
+     * @param fn The task. It receives a signal that aborts when the task is cancelled or an attempt times out
+     * @param options The task's priority, timeout and retry options
+     * @returns A promise that settles with the task's result
+     */
+    add<T>(fn: (signal: AbortSignal) => Promise<T> | T, options: TaskOptions = {}): Promise<T> {
+        const { signal } = options;
+        if (signal?.aborted) return Promise.reject(new Error("Operation aborted"));
+
+        return new Promise<T>((resolve, reject) => {
+            const info: TaskInfo = { id: this.nextId++, name: options.name, priority: options.priority ?? 0 };
+
+            // Cancelling a waiting task just takes it out of the queue. A running task sees its signal abort instead
+            const onAbort = () => {
+                this.queue = this.queue.filter(t => t !== task);
+                reject(new Error("Operation aborted"));
+                this.next();
+            };
+
+            const task: QueuedTask = {
+                info,
+                run: async () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    this.safeEmit("active", info);
+                    try {
+                        const result = await this.execute(fn, options);
+                        resolve(result);
+                        this.safeEmit("completed", result, info);
+                    } catch (err) {
+                        reject(err);
+                        this.safeEmit("failed", err, info);
+                    }
+                },
+                cancel: reason => {
+                    signal?.removeEventListener("abort", onAbort);
+                    reject(reason);
+                }
+            };
+
+            signal?.addEventListener("abort", onAbort, { once: true });
+
+            // Insert after every task with the same or a higher priority
+            const index = this.queue.findIndex(t => t.info.priority < info.priority);
+            this.queue.splice(index === -1 ? this.queue.length : index, 0, task);
+            this.next();
+        });
+    }
+
+    /** Stops starting new tasks. Running tasks carry on. */
+    pause() {
+        this.paused = true;
+    }
+
+    /** Starts running tasks again after `pause()`. */
+    resume() {
+        if (!this.paused) return;
+        this.paused = false;
+        this.next();
+    }
+
+    /**
+     * Removes every waiting task, rejecting their promises. Running tasks carry on.
+     * @param reason The error to reject them with
+     */
+    clear(reason: unknown = new Error("TaskQueue: The queue was cleared")) {
+        const waiting = this.queue.splice(0);
+        waiting.forEach(task => task.cancel(reason));
+        this.next();
+    }
+
+    /** Resolves once no tasks are waiting, though some may still be running. */
+    onEmpty(): Promise<void> {
+        if (this.queue.length === 0) return Promise.resolve();
+        return new Promise(resolve => this.emptyWaiters.push(resolve));
+    }
+
+    /** Resolves once no tasks are waiting or running. */
+    onIdle(): Promise<void> {
+        if (this.queue.length === 0 && this.running === 0) return Promise.resolve();
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+}
@@ -1,76 +1,805 @@
-export interface RetryOptions {
+import EventEmitter from "node:events";
+import { realClock, type Clock, type ClockOptions, type ClockTimer } from "./Clock.js";
+import type { TypedEmitter } from "./types.js";
+
+/**
+ * How the delay grows between retries.
+ * - `constant`: Always `delay`
+ * - `linear`: `delay` times the retry number
+ * - `exponential`: `delay` doubled after every retry
+ * - `decorrelated`: A random delay between `delay` and three times the previous one, which spreads out clients
+ *   retrying at the same time better than jitter alone
+ */
+export type RetryBackoff = "constant" | "linear" | "exponential" | "decorrelated";
+
+export interface RetryOptions extends ClockOptions {
     /** Maximum number of retry attempts. @default 3 */
     attempts?: number;
     /** Base retry delay in milliseconds. @default 500 */
     delay?: number;
+    /** How the delay grows between retries. @default "exponential" */
+    backoff?: RetryBackoff;
+    /** The longest to wait between retries in milliseconds. @default Infinity */
+    maxDelay?: number;
+    /** A random extra delay of up to this many milliseconds. Not added to `decorrelated` backoff. @default 200 */
+    jitter?: number;
     /** Timeout in milliseconds for each attempt. */
     timeout?: number;
     /** An AbortSignal to cancel the entire operation. */
     signal?: AbortSignal;
+    /**
+     * Decides whether a failed attempt should be retried, e.g. to give up on 4xx responses.
+     * @param error The error the attempt failed with
+     * @param attempt The number of the attempt that failed, starting at 1
+     */
+    shouldRetry?: (error: unknown, attempt: number) => boolean | Promise<boolean>;
+    /**
+     * Called before waiting to retry, e.g. for logging.
+     * @param error The error the attempt failed with
+     * @param attempt The number of the attempt that failed, starting at 1
+     * @param delay How long until the next attempt in milliseconds
+     */
+    onRetry?: (error: unknown, attempt: number, delay: number) => void;
+    /**
+     * Overrides the delay before the next attempt, e.g. with a server's `Retry-After` header.
+     * Return null or undefined to use the backoff delay. Not capped by `maxDelay`.
+     * @param error The error the attempt failed with
+     * @param attempt The number of the attempt that failed, starting at 1
+     */
+    retryAfter?: (error: unknown, attempt: number) => number | null | undefined;
+}
+
+/** Thrown when an operation doesn't finish within its time limit. */
+export class TimeoutError extends Error {
+    override name = "TimeoutError";
+}
+
+/** Thrown by `retryPromise` when every attempt failed, or one failed that shouldn't be retried. */
+export class RetryError extends AggregateError {
+    override name = "RetryError";
+
+    /**
+     * @param errors The error of every attempt, in order
+     * @param message The error message
+     */
+    constructor(errors: unknown[], message: string) {
+        super(errors, message, { cause: errors[errors.length - 1] });
+    }
+
+    /** How many attempts were made. */
+    get attempts(): number {
+        return this.errors.length;
+    }
+}
+
+/** Returns the backoff delay before a retry, without jitter or caps. */
+function backoffDelay(backoff: RetryBackoff, base: number, retry: number, previous: number): number {
+    switch (backoff) {
+        case "constant":
+            return base;
+        case "linear":
+            return base * retry;
+        case "exponential":
+            return base * 2 ** (retry - 1);
+        case "decorrelated":
+            return base + Math.random() * (previous * 3 - base);
+    }
 }
 
 /**
  * Retries an async function until the maximum number of attempts is reached.
  *
- * Implements exponential backoff with random jitter.
+ * Implements exponential backoff with random jitter by default.
+ * When it gives up, it throws a `RetryError` holding the error of every attempt.
  * @param fn The asynchronous function to attempt
  * @param options Options for the retry function
+ * @example
+ * const user = await retryPromise(signal => fetchUser(id, { signal }), {
+ *     backoff: "decorrelated",
+ *     maxDelay: 10_000,
+ *     shouldRetry: err => !(err instanceof HttpError && err.status < 500),
+ *     retryAfter: err => (err instanceof HttpError ? err.retryAfterMs : null),
+ *     onRetry: (err, attempt, delay) => console.warn(`Attempt ${attempt} failed, retrying in ${delay}ms`, err)
+ * });
  */
 export async function retryPromise<T>(fn: (signal?: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> {
-    const { attempts = 3, delay = 500, timeout, signal } = options;
-
-    // Immediate exit if signal is already aborted
-    if (signal?.aborted) throw new Error("Operation aborted");
+    const {
+        attempts = 3,
+        delay = 500,
+        backoff = "exponential",
+        maxDelay = Infinity,
+        jitter = 200,
+        timeout,
+        signal,
+        clock = realClock,
+        shouldRetry,
+        onRetry,
+        retryAfter
+    } = options;
 
     const executeWithTimeout = async (): Promise<T> => {
         if (!timeout) return fn(signal);
 
         const controller = new AbortController();
-        const timer = setTimeout(() => controller.abort(), timeout);
+        const timer = clock.setTimeout(() => controller.abort(), timeout);
 
         try {
             // Race the function against the timeout signal
             return await fn(controller.signal);
         } catch (err) {
-            if (controller.signal.aborted) throw new Error(`Attempt timed out after ${timeout}ms`);
+            if (controller.signal.aborted) throw new TimeoutError(`Attempt timed out after ${timeout}ms`);
             throw err;
         } finally {
-            clearTimeout(timer);
+            clock.clearTimeout(timer);
         }
     };
 
-    try {
-        return await executeWithTimeout();
-    } catch (error: any) {
-        // Don't retry if the user manually cancelled the whole thing
-        if (signal?.aborted) throw error;
-        if (attempts <= 0) throw error;
-
-        const jitter = Math.random() * 200;
-        const totalDelay = delay + jitter;
-
-        // Wait for the delay, but stop waiting if the signal aborts
-        await new Promise((resolve, reject) => {
-            const timer = setTimeout(resolve, totalDelay);
-            signal?.addEventListener(
-                "abort",
-                () => {
-                    clearTimeout(timer);
+    const errors: unknown[] = [];
+    let previousDelay = delay;
+
+    for (let attempt = 1; ; attempt++) {
+        // Exit if the signal aborted, including while an async shouldRetry was running
+        if (signal?.aborted) throw new Error("Operation aborted");
+
+        try {
+            return await executeWithTimeout();
+        } catch (error) {
+            // Don't retry if the user manually cancelled the whole thing
+            if (signal?.aborted) throw error;
+
+            errors.push(error);
+            if (attempt > attempts) {
+                throw new RetryError(errors, `retryPromise: Failed after ${attempt} attempts`);
+            }
+            if (shouldRetry && !(await shouldRetry(error, attempt))) {
+                throw new RetryError(errors, `retryPromise: Gave up after attempt ${attempt}, the error isn't retryable`);
+            }
+
+            const serverDelay = retryAfter?.(error, attempt);
+            let totalDelay: number;
+            if (serverDelay !== null && serverDelay !== undefined) {
+                totalDelay = serverDelay;
+            } else {
+                previousDelay = Math.min(backoffDelay(backoff, delay, attempt, previousDelay), maxDelay);
+                const extra = backoff === "decorrelated" ? 0 : Math.random() * jitter;
+                totalDelay = Math.min(previousDelay + extra, maxDelay);
+            }
+            onRetry?.(error, attempt, totalDelay);
+            if (signal?.aborted) throw new Error("Operation aborted");
+
+            // Wait for the delay, but stop waiting if the signal aborts
+            await new Promise((resolve, reject) => {
+                const onAbort = () => {
+                    clock.clearTimeout(timer);
                     reject(new Error("Operation aborted"));
-                },
-                { once: true }
-            );
+                };
+                const timer = clock.setTimeout(() => {
+                    // Long-lived signals would otherwise collect a listener per retry
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(undefined);
+                }, totalDelay);
+                signal?.addEventListener("abort", onAbort, { once: true });
+            });
+        }
+    }
+}
+
+export interface MapAsyncOptions {
+    /** How many items to process at once. @default Infinity */
+    concurrency?: number;
+    /** An AbortSignal to cancel the entire operation. Items already running receive an aborted signal. */
+    signal?: AbortSignal;
+    /**
+     * Rejects with the first error and stops starting new items.
+     * When false, every item runs and the errors are thrown together as an `AggregateError` at the end.
+     * Ignored in settled mode. @default true
+     */
+    stopOnError?: boolean;
+    /** Resolves with every item's outcome instead of rejecting, like `Promise.allSettled`. @default false */
+    settled?: boolean;
+    /**
+     * Called whenever an item finishes, successfully or not.
+     * `total` is null when the input is an iterable of unknown length.
+     */
+    onProgress?: (progress: { completed: number; total: number | null }) => void;
+}
+
+/**
+ * Maps items through an async function with limited concurrency, resolving with the results in input order.
+ *
+ * Items are pulled from the input only when a slot frees up, so large or lazy iterables are processed with back-pressure.
+ * @param items An array, iterable or async iterable of items
+ * @param fn The function to map each item with. Its signal aborts if the operation is cancelled or stops on an error
+ * @param options Options for concurrency, cancellation and error handling
+ * @example
+ * // 8 requests at a time
+ * const users = await mapAsync(ids, (id, i, signal) => fetchUser(id, { signal }), { concurrency: 8 });
+ * @example
+ * // Collect failures instead of throwing
+ * const results = await mapAsync(files, upload, { concurrency: 4, settled: true });
+ * const failed = results.filter(r => r.status === "rejected");
+ */
+export function mapAsync<T, R>(
+    items: Iterable<T> | AsyncIterable<T>,
+    fn: (item: T, index: number, signal: AbortSignal) => Promise<R> | R,
+    options: MapAsyncOptions & { settled: true }
+): Promise<PromiseSettledResult<R>[]>;
+export function mapAsync<T, R>(
+    items: Iterable<T> | AsyncIterable<T>,
+    fn: (item: T, index: number, signal: AbortSignal) => Promise<R> | R,
+    options?: MapAsyncOptions
+): Promise<R[]>;
+export function mapAsync<T, R>(
+    items: Iterable<T> | AsyncIterable<T>,
+    fn: (item: T, index: number, signal: AbortSignal) => Promise<R> | R,
+    options: MapAsyncOptions = {}
+): Promise<(R | PromiseSettledResult<R>)[]> {
+    const { concurrency = Infinity, signal, stopOnError = true, settled = false, onProgress } = options;
+    const total = Array.isArray(items) ? items.length : null;
+    const controller = new AbortController();
+
+    // Every failure, even invalid arguments, surfaces as a rejection
+    return new Promise((resolve, reject) => {
+        if (!(concurrency >= 1)) return reject(new Error("mapAsync: concurrency must be at least 1"));
+        // Immediate exit if signal is already aborted
+        if (signal?.aborted) return reject(new Error("Operation aborted"));
+
+        // Strings are iterable too, so check for the method rather than using `in`
+        const iterator: Iterator<T> | AsyncIterator<T> =
+            typeof (items as AsyncIterable<T>)[Symbol.asyncIterator] === "function"
+                ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+                : (items as Iterable<T>)[Symbol.iterator]();
+
+        const results: (R | PromiseSettledResult<R>)[] = [];
+        const errors: unknown[] = [];
+        let index = 0;
+        let active = 0;
+        let completed = 0;
+        let exhausted = false;
+        let pulling = false;
+        let finished = false;
+
+        const finish = (error?: unknown) => {
+            if (finished) return;
+            finished = true;
+            signal?.removeEventListener("abort", onAbort);
+
+            if (error === undefined) return resolve(results);
+            // Stop the items still running and close the input, e.g. a generator's finally blocks
+            controller.abort();
+            if (!exhausted) Promise.resolve(iterator.return?.()).catch(() => {});
+            reject(error);
+        };
+
+        const onAbort = () => finish(new Error("Operation aborted"));
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        const onSettled = (i: number, result: PromiseSettledResult<R>) => {
+            active--;
+            completed++;
+
+            if (settled) {
+                results[i] = result;
+            } else if (result.status === "fulfilled") {
+                results[i] = result.value;
+            } else if (stopOnError) {
+                return finish(result.reason);
+            } else {
+                errors.push(result.reason);
+            }
+
+            try {
+                onProgress?.({ completed, total });
+            } catch (err) {
+                return finish(err);
+            }
+            fill();
+        };
+
+        // Starts items until every slot is taken. Only one call pulls at a time, since async iterators
+        // don't support concurrent next() calls
+        const fill = async () => {
+            if (pulling || finished) return;
+            pulling = true;
+
+            try {
+                while (!exhausted && !finished && active < concurrency) {
+                    const next = await iterator.next();
+                    if (next.done) {
+                        exhausted = true;
+                        break;
+                    }
+                    if (finished) break;
+
+                    const i = index++;
+                    active++;
+                    Promise.resolve()
+                        .then(() => fn(next.value, i, controller.signal))
+                        .then(
+                            value => onSettled(i, { status: "fulfilled", value }),
+                            reason => onSettled(i, { status: "rejected", reason })
+                        );
+                }
+            } catch (err) {
+                // The input itself failed
+                return finish(err);
+            } finally {
+                pulling = false;
+            }
+
+            if (exhausted && active === 0) {
+                finish(errors.length ? new AggregateError(errors, `mapAsync: ${errors.length} items failed`) : undefined);
+            }
+        };
+
+        fill();
+    });
+}
+
+/**
+ * The state of a `CircuitBreaker`.
+ * - `closed`: Calls go through and failures are counted
+ * - `open`: Calls fail fast with a `CircuitOpenError` until `resetTimeout` passes
+ * - `half-open`: A few trial calls go through. If they succeed the circuit closes, if one fails it opens again
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions extends ClockOptions {
+    /** Opens the circuit after this many failures within `window`. @default 5 */
+    failureThreshold?: number;
+    /** Also opens the circuit once this fraction of calls within `window` failed, e.g. 0.5 for half. */
+    failureRate?: number;
+    /** The fewest calls within `window` before `failureRate` applies. @default 10 */
+    minimumCalls?: number;
+    /** The rolling window failures are counted over in milliseconds. @default 60000 */
+    window?: number;
+    /** How long the circuit stays open before letting trial calls through in milliseconds. @default 30000 */
+    resetTimeout?: number;
+    /** How many trial calls go through while half-open. All of them must succeed to close the circuit. @default 1 */
+    halfOpenMaxCalls?: number;
+    /** Decides whether an error counts as a failure, e.g. to ignore 4xx responses. @default every error */
+    isFailure?: (error: unknown) => boolean;
+}
+
+export interface CircuitBreakerEvents {
+    stateChange: [{ from: CircuitState; to: CircuitState }];
+    open: [];
+    halfOpen: [];
+    close: [];
+}
+
+/** Thrown by `CircuitBreaker.call` instead of calling through while the circuit is open. */
+export class CircuitOpenError extends Error {
+    override name = "CircuitOpenError";
+    /** When the circuit lets trial calls through again, or null if it's half-open and waiting on trial calls. */
+    readonly retryAt: Date | null;
+
+    /**
+     * @param message The error message
+     * @param retryAt When the circuit lets trial calls through again
+     */
+    constructor(message: string, retryAt: Date | null) {
+        super(message);
+        this.retryAt = retryAt;
+    }
+}
+
+const CircuitBreakerEmitter = EventEmitter as { new (): TypedEmitter<CircuitBreakerEvents> };
+
+/**
+ * Wraps an async function so calls fail fast while whatever it depends on is down.
+ *
+ * Failures are counted over a rolling window. Once there are too many, the circuit opens and calls throw a
+ * `CircuitOpenError` right away. After `resetTimeout`, trial calls decide whether it closes or opens again.
+ * @example
+ * const breaker = new CircuitBreaker(fetchPrices, { failureRate: 0.5, resetTimeout: 10_000 });
+ * breaker.on("stateChange", ({ from, to }) => console.warn(`Prices circuit: ${from} -> ${to}`));
+ *
+ * // Retry flaky calls, but don't wait through every attempt while the circuit is open
+ * const prices = await retryPromise(() => breaker.call("BTC"), {
+ *     shouldRetry: err => !(err instanceof CircuitOpenError)
+ * });
+ */
+export class CircuitBreaker<A extends unknown[], R> extends CircuitBreakerEmitter {
+    private fn: (...args: A) => Promise<R>;
+    private options: CircuitBreakerOptions;
+    private clock: Clock;
+    private _state: CircuitState = "closed";
+    /** Outcomes of calls while closed, oldest first. Those before `head` have left the window. */
+    private outcomes: { at: number; failed: boolean }[] = [];
+    private head = 0;
+    /** How many outcomes within the window failed. */
+    private failures = 0;
+    private trials = 0;
+    private trialSuccesses = 0;
+    private retryAt: number | null = null;
+    private resetTimer: ClockTimer | null = null;
+    /** Changes with every state change, so calls that started in an earlier state don't count towards this one. */
+    private generation = 0;
+
+    /**
+     * @param fn The async function to protect
+     * @param options Options for when the circuit opens and closes
+     */
+    constructor(fn: (...args: A) => Promise<R>, options: CircuitBreakerOptions = {}) {
+        super();
+        this.fn = fn;
+        this.options = options;
+        this.clock = options.clock ?? realClock;
+    }
+
+    get state(): CircuitState {
+        return this._state;
+    }
+
+    private transition(to: CircuitState) {
+        const from = this._state;
+        if (from === to) return;
+
+        this._state = to;
+        this.generation++;
+        this.retryAt = null;
+        if (this.resetTimer !== null) {
+            this.clock.clearTimeout(this.resetTimer);
+            this.resetTimer = null;
+        }
+
+        if (to === "open") {
+            const resetTimeout = this.options.resetTimeout ?? 30_000;
+            this.retryAt = this.clock.now() + resetTimeout;
+            this.resetTimer = this.clock.setTimeout(() => this.transition("half-open"), resetTimeout);
+            this.clock.unref?.(this.resetTimer);
+        } else if (to === "half-open") {
+            this.trials = 0;
+            this.trialSuccesses = 0;
+        } else {
+            this.clearOutcomes();
+        }
+
+        this.emit("stateChange", { from, to });
+        this.emit(to === "half-open" ? "halfOpen" : to === "open" ? "open" : "close");
+    }
+
+    /** Records a call's outcome while closed, opening the circuit if the window has too many failures. */
+    private record(failed: boolean) {
+        const now = this.clock.now();
+        const windowStart = now - (this.options.window ?? 60_000);
+        this.outcomes.push({ at: now, failed });
+        if (failed) this.failures++;
+
+        // Advance past expired outcomes instead of shifting them off, which would make every call O(n)
+        while (this.head < this.outcomes.length && this.outcomes[this.head]!.at <= windowStart) {
+            if (this.outcomes[this.head++]!.failed) this.failures--;
+        }
+        if (this.head > 1000 && this.head * 2 > this.outcomes.length) {
+            this.outcomes = this.outcomes.slice(this.head);
+            this.head = 0;
+        }
+
+        const { failureThreshold = 5, failureRate, minimumCalls = 10 } = this.options;
+        const total = this.outcomes.length - this.head;
+        const rateExceeded = failureRate !== undefined && total >= minimumCalls && this.failures / total >= failureRate;
+
+        if (this.failures >= failureThreshold || rateExceeded) this.transition("open");
+    }
+
+    private clearOutcomes() {
+        this.outcomes = [];
+        this.head = 0;
+        this.failures = 0;
+    }
+
+    private settle(generation: number, failed: boolean) {
+        // The circuit changed state while this call was running
+        if (generation !== this.generation) return;
+
+        if (this._state === "closed") return this.record(failed);
+        if (failed) return this.transition("open");
+        if (++this.trialSuccesses >= (this.options.halfOpenMaxCalls ?? 1)) this.transition("closed");
+    }
+
+    /**
+     * Calls the function, unless the circuit is open.
+     * @param args The arguments to call the function with
+     * @throws {CircuitOpenError} If the circuit is open, or half-open with every trial call taken
+     */
+    async call(...args: A): Promise<R> {
+        if (this._state === "open") {
+            throw new CircuitOpenError("CircuitBreaker: The circuit is open", new Date(this.retryAt!));
+        }
+        if (this._state === "half-open") {
+            if (this.trials >= (this.options.halfOpenMaxCalls ?? 1)) {
+                throw new CircuitOpenError("CircuitBreaker: The circuit is half-open and waiting on trial calls", null);
+            }
+            this.trials++;
+        }
+
+        const generation = this.generation;
+        try {
+            const result = await this.fn(...args);
+            this.settle(generation, false);
+            return result;
+        } catch (err) {
+            // Errors that aren't failures still mean the dependency answered
+            this.settle(generation, this.options.isFailure?.(err) ?? true);
+            throw err;
+        }
+    }
+
+    /** Closes the circuit and forgets every recorded failure. */
+    reset() {
+        this.transition("closed");
+        this.clearOutcomes();
+    }
+}
+
+/**
+ * A promise that's resolved or rejected from the outside.
+ * @example
+ * const ready = new Deferred<void>();
+ * socket.once("open", () => ready.resolve());
+ * await ready.promise;
+ */
+export class Deferred<T> {
+    readonly promise: Promise<T>;
+    private _resolve!: (value: T | PromiseLike<T>) => void;
+    private _reject!: (reason?: unknown) => void;
+    private _settled = false;
+
+    constructor() {
+        this.promise = new Promise<T>((resolve, reject) => {
+            this._resolve = resolve;
+            this._reject = reject;
+        });
+    }
+
+    /** Whether `resolve` or `reject` was called. */
+    get settled(): boolean {
+        return this._settled;
+    }
+
+    resolve(value: T | PromiseLike<T>) {
+        this._settled = true;
+        this._resolve(value);
+    }
+
+    reject(reason?: unknown) {
+        this._settled = true;
+        this._reject(reason);
+    }
+}
+
+export interface LockOptions {
+    /** An AbortSignal to stop waiting for the lock. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Limits how many callers can hold it at once.
+ * @example
+ * const downloads = new Semaphore(3);
+ * await Promise.all(urls.map(url => downloads.runExclusive(() => download(url))));
+ */
+export class Semaphore {
+    private permits: number;
+    private waiters: ((release: () => void) => void)[] = [];
+
+    /**
+     * @param permits How many callers can hold the semaphore at once
+     */
+    constructor(permits: number) {
+        if (!(permits >= 1)) throw new Error("Semaphore: permits must be at least 1");
+        this.permits = permits;
+    }
+
+    /** How many more callers could acquire it right now. */
+    get available(): number {
+        return this.permits;
+    }
+
+    /** How many callers are waiting to acquire it. */
+    get waiting(): number {
+        return this.waiters.length;
+    }
+
+    /** Returns a function that gives the permit back, to the next waiter if there is one. Calling it again does nothing. */
+    private createRelease(): () => void {
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+
+            const next = this.waiters.shift();
+            if (next) {
+                next(this.createRelease());
+            } else {
+                this.permits++;
+            }
+        };
+    }
+
+    /**
+     * Acquires a permit if one is free, without waiting.
+     * @returns A function that releases the permit, or null if none was free
+     */
+    tryAcquire(): (() => void) | null {
+        if (this.permits === 0) return null;
+        this.permits--;
+        return this.createRelease();
+    }
+
+    /**
+     * Waits for a free permit. Waiters are served in order.
+     * @param options A signal to stop waiting
+     * @returns A function that releases the permit
+     * @throws If the signal aborts while waiting
+     */
+    acquire(options: LockOptions = {}): Promise<() => void> {
+        const { signal } = options;
+        if (signal?.aborted) return Promise.reject(new Error("Operation aborted"));
+
+        const release = this.tryAcquire();
+        if (release) return Promise.resolve(release);
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.waiters = this.waiters.filter(w => w !== waiter);
+                reject(new Error("Operation aborted"));
+            };
+            const waiter = (release: () => void) => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve(release);
+            };
+
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.waiters.push(waiter);
         });
+    }
+
+    /**
+     * Runs a function while holding a permit, releasing it when the function settles.
+     * @param fn The function to run
+     * @param options A signal to stop waiting
+     */
+    async runExclusive<T>(fn: () => Promise<T> | T, options: LockOptions = {}): Promise<T> {
+        const release = await this.acquire(options);
+        try {
+            return await fn();
+        } finally {
+            release();
+        }
+    }
+}
+
+/**
+ * Lets one caller at a time into a critical section.
+ * @example
+ * const lock = new Mutex();
+ *
+ * // Concurrent read-modify-writes never interleave
+ * await lock.runExclusive(async () => {
+ *     const balance = store.get<number>("balance") ?? 0;
+ *     store.set("balance", balance + (await fetchDeposit()));
+ * });
+ */
+export class Mutex extends Semaphore {
+    constructor() {
+        super(1);
+    }
+
+    get isLocked(): boolean {
+        return this.available === 0;
+    }
+}
+
+/**
+ * A separate mutex per key, e.g. to serialize work per user while different users run in parallel.
+ * Locks are created on demand and dropped once nobody holds or waits for them.
+ * @example
+ * const userLocks = new KeyedMutex<string>();
+ * await userLocks.runExclusive(userId, () => updateProfile(userId, changes));
+ */
+export class KeyedMutex<K = string> {
+    private locks = new Map<K, { mutex: Mutex; users: number }>();
+
+    /**
+     * Checks if a key's lock is held.
+     * @param key The key to check
+     */
+    isLocked(key: K): boolean {
+        return this.locks.get(key)?.mutex.isLocked ?? false;
+    }
+
+    /**
+     * Waits for a key's lock.
+     * @param key The key to lock
+     * @param options A signal to stop waiting
+     * @returns A function that releases the lock
+     * @throws If the signal aborts while waiting
+     */
+    async acquire(key: K, options: LockOptions = {}): Promise<() => void> {
+        let lock = this.locks.get(key);
+        if (!lock) {
+            lock = { mutex: new Mutex(), users: 0 };
+            this.locks.set(key, lock);
+        }
+        lock.users++;
+
+        const done = () => {
+            if (--lock.users === 0) this.locks.delete(key);
+        };
 
-        // Run it back
-        return retryPromise(fn, { ...options, attempts: attempts - 1, delay: delay * 2 });
+        try {
+            const release = await lock.mutex.acquire(options);
+            return () => {
+                release();
+                done();
+            };
+        } catch (err) {
+            done();
+            throw err;
+        }
+    }
+
+    /**
+     * Runs a function while holding a key's lock, releasing it when the function settles.
+     * @param key The key to lock
+     * @param fn The function to run
+     * @param options A signal to stop waiting
+     */
+    async runExclusive<T>(key: K, fn: () => Promise<T> | T, options: LockOptions = {}): Promise<T> {
+        const release = await this.acquire(key, options);
+        try {
+            return await fn();
+        } finally {
+            release();
+        }
     }
 }
 
+export interface WithTimeoutOptions extends ClockOptions {
+    /** An AbortSignal to stop waiting early. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Rejects with a `TimeoutError` if a promise doesn't settle in time.
+ *
+ * The promise itself keeps running, pass it a signal of its own if it should stop as well.
+ * @param promise The promise to wait for
+ * @param ms The time limit in milliseconds
+ * @param options A signal to stop waiting early
+ * @example
+ * const config = await withTimeout(fetchConfig(), 5000);
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, options: WithTimeoutOptions = {}): Promise<T> {
+    const { signal, clock = realClock } = options;
+    if (signal?.aborted) return Promise.reject(new Error("Operation aborted"));
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            clock.clearTimeout(timer);
+            reject(new Error("Operation aborted"));
+        };
+        const timer = clock.setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            reject(new TimeoutError(`withTimeout: Timed out after ${ms}ms`));
+        }, ms);
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => {
+            clock.clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+        });
+    });
+}
+
 /**
  * Returns a promise that resolves after the given number of milliseconds.
  * @param ms The time to wait in milliseconds
+ * @param options The clock to wait on
  */
-export function wait(ms: number): Promise<boolean> {
-    return new Promise(resolve => setTimeout(() => resolve(true), ms));
+export function wait(ms: number, options: ClockOptions = {}): Promise<boolean> {
+    const { clock = realClock } = options;
+    return new Promise(resolve => clock.setTimeout(() => resolve(true), ms));
 }
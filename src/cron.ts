@@ -0,0 +1,198 @@
+export interface CronSchedule {
+    seconds: Set<number>;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    /** 0 is Sunday. */
+    daysOfWeek: Set<number>;
+    /** Whether the day-of-month field was `*`. Standard cron matches either day field when both are restricted. */
+    anyDayOfMonth: boolean;
+    /** Whether the day-of-week field was `*`. */
+    anyDayOfWeek: boolean;
+}
+
+type CronField = { min: number; max: number; names?: string[] };
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const FIELDS: Record<string, CronField> = {
+    second: { min: 0, max: 59 },
+    minute: { min: 0, max: 59 },
+    hour: { min: 0, max: 23 },
+    dayOfMonth: { min: 1, max: 31 },
+    month: { min: 1, max: 12, names: MONTH_NAMES },
+    // 7 is accepted as an alias for Sunday
+    dayOfWeek: { min: 0, max: 7, names: DAY_NAMES }
+};
+
+/** How far ahead to search before deciding an expression can never match (e.g. "0 0 30 2 *"). */
+const MAX_SEARCH_YEARS = 8;
+
+function parseValue(value: string, field: CronField, expression: string): number {
+    const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+    // Month names are 1-based, day names are 0-based
+    if (nameIndex !== -1) return field.names === MONTH_NAMES ? nameIndex + 1 : nameIndex;
+
+    const num = Number(value);
+    if (!/^\d+$/.test(value) || num < field.min || num > field.max) {
+        throw new Error(`parseCron: Invalid value "${value}" in "${expression}"`);
+    }
+    return num;
+}
+
+function parseField(part: string, field: CronField, expression: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const item of part.split(",")) {
+        const [range, stepStr] = item.split("/");
+        const step = stepStr === undefined ? 1 : Number(stepStr);
+        if (!range || !Number.isInteger(step) || step < 1) {
+            throw new Error(`parseCron: Invalid step in "${item}" of "${expression}"`);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === "*") {
+            start = field.min;
+            end = field.max;
+        } else if (range.includes("-")) {
+            const [from = "", to = ""] = range.split("-");
+            start = parseValue(from, field, expression);
+            end = parseValue(to, field, expression);
+        } else {
+            start = parseValue(range, field, expression);
+            // "5/15" means every 15 starting at 5
+            end = stepStr === undefined ? start : field.max;
+        }
+
+        if (start > end) throw new Error(`parseCron: Invalid range "${range}" in "${expression}"`);
+        for (let i = start; i <= end; i += step) values.add(i);
+    }
+
+    return values;
+}
+
+/**
+ * Parses a standard cron expression.
+ *
+ * Supports 5 fields (minute hour day-of-month month day-of-week), or 6 with a leading seconds field.
+ * Each field accepts `*`, values, ranges (`1-5`), steps (`*\/15`, `10-30/5`), lists (`1,15`) and month/day names (`JAN`, `MON`).
+ * @param expression The cron expression to parse
+ * @example
+ * parseCron("0 3 * * *"); // Every day at 03:00
+ * parseCron("0 9 * * MON"); // Every Monday at 09:00
+ * parseCron("*\/10 * * * * *"); // Every 10 seconds
+ */
+export function parseCron(expression: string): CronSchedule {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5 && parts.length !== 6) {
+        throw new Error(`parseCron: Expected 5 or 6 fields, got ${parts.length} in "${expression}"`);
+    }
+    if (parts.length === 5) parts.unshift("0");
+
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek] = parts as [string, string, string, string, string, string];
+    const daysOfWeek = parseField(dayOfWeek, FIELDS.dayOfWeek!, expression);
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        seconds: parseField(second, FIELDS.second!, expression),
+        minutes: parseField(minute, FIELDS.minute!, expression),
+        hours: parseField(hour, FIELDS.hour!, expression),
+        daysOfMonth: parseField(dayOfMonth, FIELDS.dayOfMonth!, expression),
+        months: parseField(month, FIELDS.month!, expression),
+        daysOfWeek,
+        anyDayOfMonth: dayOfMonth === "*",
+        anyDayOfWeek: dayOfWeek === "*"
+    };
+}
+
+/** Returns the wall-clock time of an instant in a timezone, encoded as if it were UTC. */
+function toWallClock(time: number, timezone?: string): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric"
+    }).formatToParts(time);
+
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+}
+
+/** Converts a wall-clock time (encoded as UTC) in a timezone back to an instant. */
+function fromWallClock(wall: number, timezone?: string): number {
+    // The offset at the guess can differ from the offset at the answer around DST changes, so correct once
+    const guess = wall - (toWallClock(wall, timezone) - wall);
+    return wall - (toWallClock(guess, timezone) - guess);
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const dom = schedule.daysOfMonth.has(date.getUTCDate());
+    const dow = schedule.daysOfWeek.has(date.getUTCDay());
+    if (schedule.anyDayOfMonth) return dow;
+    if (schedule.anyDayOfWeek) return dom;
+    return dom || dow;
+}
+
+/** Finds the first wall-clock time strictly after `wall` that matches the schedule. */
+function nextWallClockMatch(schedule: CronSchedule, wall: number): number | null {
+    const date = new Date(wall);
+    date.setUTCMilliseconds(0);
+    date.setUTCSeconds(date.getUTCSeconds() + 1);
+
+    const limit = date.getUTCFullYear() + MAX_SEARCH_YEARS;
+    while (date.getUTCFullYear() <= limit) {
+        if (!schedule.months.has(date.getUTCMonth() + 1)) {
+            date.setUTCMonth(date.getUTCMonth() + 1, 1);
+            date.setUTCHours(0, 0, 0);
+        } else if (!matchesDay(schedule, date)) {
+            date.setUTCDate(date.getUTCDate() + 1);
+            date.setUTCHours(0, 0, 0);
+        } else if (!schedule.hours.has(date.getUTCHours())) {
+            date.setUTCHours(date.getUTCHours() + 1, 0, 0);
+        } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+            date.setUTCMinutes(date.getUTCMinutes() + 1, 0);
+        } else if (!schedule.seconds.has(date.getUTCSeconds())) {
+            date.setUTCSeconds(date.getUTCSeconds() + 1);
+        } else {
+            return date.getTime();
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Returns the next time a cron expression matches, strictly after `from`.
+ * @param expression A cron expression or a schedule from `parseCron`
+ * @param from The time to search from. [default: now]
+ * @param timezone The IANA timezone to evaluate the expression in, e.g. "Europe/Berlin". [default: local time]
+ * @returns The next matching date, or null if the expression can never match
+ * @example
+ * getNextCronDate("0 3 * * *", new Date(), "America/New_York"); // The next 03:00 in New York
+ */
+export function getNextCronDate(
+    expression: string | CronSchedule,
+    from: number | Date = Date.now(),
+    timezone?: string
+): Date | null {
+    const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+    const fromMs = from instanceof Date ? from.getTime() : from;
+
+    let wall = toWallClock(fromMs, timezone);
+    for (;;) {
+        const match = nextWallClockMatch(schedule, wall);
+        if (match === null) return null;
+
+        // Ambiguous wall-clock times after a DST fall-back can map to an instant we've already passed
+        const time = fromWallClock(match, timezone);
+        if (time > fromMs) return new Date(time);
+        wall = match;
+    }
+}
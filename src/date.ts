@@ -1,7 +1,9 @@
-export interface ParseTimeOptions {
+import { realClock, type ClockOptions } from "./Clock.js";
+
+export interface ParseTimeOptions extends ClockOptions {
     /** Return value in seconds instead of milliseconds. */
     unit?: "ms" | "s";
-    /** If true, returns the absolute Unix timestamp (Date.now() + result). */
+    /** If true, returns the absolute Unix timestamp (now + result). */
     fromNow?: boolean;
 }
 
@@ -19,9 +21,10 @@ const MS_MAP: Record<string, number> = {
 /**
  * Calculates the age of a person based on their birthdate.
  * @param birthdate The birthdate of the person
+ * @param options The clock to read today's date from
  */
-export function getAge(birthdate: Date): number {
-    const today = new Date();
+export function getAge(birthdate: Date, options: ClockOptions = {}): number {
+    const today = new Date((options.clock ?? realClock).now());
     let age = today.getFullYear() - birthdate.getFullYear();
     const monthDiff = today.getMonth() - birthdate.getMonth();
     if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthdate.getDate())) {
@@ -54,5 +57,5 @@ export function parseTime(str: string | number, options: ParseTimeOptions = {}):
     if (!found) throw new Error(`parse: Invalid time format: "${str}"`);
 
     const result = options.unit === "s" ? totalMs / 1000 : totalMs;
-    return options.fromNow ? Date.now() + result : result;
+    return options.fromNow ? (options.clock ?? realClock).now() + result : result;
 }
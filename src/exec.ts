@@ -1,11 +1,43 @@
+import { Deferred } from "./async.js";
+import { realClock, type Clock, type ClockOptions, type ClockTimer } from "./Clock.js";
+
 export interface DebouncedFunction<T extends (...args: unknown[]) => unknown> {
-    (...args: Parameters<T>): void;
-    /** Cancels the debounced function. */
+    /**
+     * Resolves with the result of the call that ends up covering this one.
+     * Calls covered by the same run share one promise, which rejects if the function throws.
+     * Unawaited calls never cause an unhandled rejection, so errors are only seen by awaiting.
+     */
+    (...args: Parameters<T>): Promise<Awaited<ReturnType<T>>>;
+    /** Cancels the pending call. Its callers get the previous call's result, or undefined if there wasn't one. */
     cancel: () => void;
+    /** Runs the pending call immediately, if there is one. */
+    flush: () => void;
+    /** Checks if a call is waiting to run. */
+    pending: () => boolean;
+}
+
+export interface DebounceOptions extends ClockOptions {
+    /** Calls the function on the leading edge, i.e. on the first call of a burst. [default: false] */
+    leading?: boolean;
+    /**
+     * Calls the function on the trailing edge, with the latest arguments once calls stop for `wait`.
+     * With `leading` as well, it only fires if there was more than one call in the burst. [default: true]
+     */
+    trailing?: boolean;
+    /** The longest the function can be delayed in milliseconds, so it still runs during a continuous stream of calls. */
+    maxWait?: number;
+    /**
+     * @deprecated Use `leading: true, trailing: false` instead.
+     * Errors thrown by the function are no longer thrown from the call, await its promise to catch them.
+     */
+    immediate?: boolean;
 }
 
 /**
  * Only executes after 'wait' ms have passed since the last call.
+ *
+ * Calls return a promise of the result rather than nothing, and errors thrown by the function reject it
+ * instead of being thrown from the call.
  * @param fn The function to debounce
  * @param wait The time to wait in milliseconds
  * @param options Options for the debounce function
@@ -17,39 +49,127 @@ export interface DebouncedFunction<T extends (...args: unknown[]) => unknown> {
  * search('abc'); // Only 'abc' will be logged.
  * // Cancel a pending execution
  * search.cancel();
+ * @example
+ * // Save right away, then again with the final value, and at least once a second while typing
+ * const save = debounce((text: string) => api.save(text), 300, { leading: true, maxWait: 1000 });
+ * const saved = await save(editor.value);
  */
 export function debounce<T extends (...args: unknown[]) => unknown>(
     fn: T,
     wait: number,
-    options: {
-        /** Calls the function immediately on the leading edge */
-        immediate?: boolean;
-    } = {}
+    options: DebounceOptions = {}
 ): DebouncedFunction<T> {
-    let timeoutId: ReturnType<typeof setTimeout> | undefined;
-    const leading = options.immediate ?? false;
+    type Result = Awaited<ReturnType<T>>;
+
+    const leading = options.leading ?? options.immediate ?? false;
+    const trailing = options.trailing ?? !options.immediate;
+    const maxWait = options.maxWait === undefined ? undefined : Math.max(options.maxWait, wait);
+    const clock = options.clock ?? realClock;
+
+    let timeoutId: ClockTimer | undefined;
+    let lastArgs: Parameters<T> | undefined;
+    let lastThis: unknown;
+    let lastCallTime: number | undefined;
+    let lastInvokeTime = 0;
+    /** The result of the latest run, which calls that never run themselves resolve with. */
+    let lastInvocation: Promise<Result> | undefined;
+    /** The result of the pending trailing call, shared by every call it covers. */
+    let next: Deferred<Result> | null = null;
+
+    const createInvocation = () => {
+        const invocation = new Deferred<Result>();
+        // Only callers that await the promise see an error, fire-and-forget calls stay quiet
+        invocation.promise.catch(() => {});
+        return invocation;
+    };
+
+    const invoke = (time: number): Promise<Result> => {
+        const args = lastArgs!;
+        const thisArg = lastThis;
+        const invocation = next ?? createInvocation();
+        lastArgs = lastThis = undefined;
+        lastInvokeTime = time;
+        next = null;
+
+        try {
+            invocation.resolve(fn.apply(thisArg, args) as Result | Promise<Result>);
+        } catch (err) {
+            invocation.reject(err);
+        }
+        return (lastInvocation = invocation.promise);
+    };
+
+    const shouldInvoke = (time: number) => {
+        if (lastCallTime === undefined) return true;
+        const sinceCall = time - lastCallTime;
+        // A clock that moved backwards counts as a new burst
+        return sinceCall >= wait || sinceCall < 0 || (maxWait !== undefined && time - lastInvokeTime >= maxWait);
+    };
+
+    const remainingWait = (time: number) => {
+        const remaining = wait - (time - lastCallTime!);
+        return maxWait === undefined ? remaining : Math.min(remaining, maxWait - (time - lastInvokeTime));
+    };
+
+    const trailingEdge = (time: number) => {
+        timeoutId = undefined;
+        if (trailing && lastArgs) {
+            invoke(time);
+            return;
+        }
+        lastArgs = lastThis = undefined;
+    };
+
+    const timerExpired = () => {
+        const time = clock.now();
+        if (shouldInvoke(time)) return trailingEdge(time);
+        // Called again since the timer was set, so wait out the rest
+        timeoutId = clock.setTimeout(timerExpired, remainingWait(time));
+    };
 
     const debounced = function (this: unknown, ...args: Parameters<T>) {
-        const callNow = leading && !timeoutId;
-        if (timeoutId) clearTimeout(timeoutId);
+        const time = clock.now();
+        const isInvoking = shouldInvoke(time);
 
-        timeoutId = setTimeout(() => {
-            timeoutId = undefined;
-            // If we aren't in leading mode, fire the function at the end
-            if (!leading) fn.apply(this, args);
-        }, wait);
+        lastArgs = args;
+        lastThis = this;
+        lastCallTime = time;
 
-        // If leading is true and no timer was active, fire immediately
-        if (callNow) fn.apply(this, args);
+        if (isInvoking && timeoutId === undefined) {
+            // Start of a burst
+            lastInvokeTime = time;
+            timeoutId = clock.setTimeout(timerExpired, wait);
+            if (leading) return invoke(time);
+        } else if (isInvoking && maxWait !== undefined) {
+            // maxWait ran out in the middle of a burst
+            clock.clearTimeout(timeoutId!);
+            timeoutId = clock.setTimeout(timerExpired, wait);
+            return invoke(time);
+        } else if (timeoutId === undefined) {
+            timeoutId = clock.setTimeout(timerExpired, wait);
+        }
+
+        // Without a trailing call, this call is covered by the latest one
+        if (!trailing) return lastInvocation ?? Promise.resolve(undefined as Result);
+        return (next ??= createInvocation()).promise;
     } as DebouncedFunction<T>;
 
     debounced.cancel = () => {
-        if (timeoutId) {
-            clearTimeout(timeoutId);
-            timeoutId = undefined;
-        }
+        if (timeoutId !== undefined) clock.clearTimeout(timeoutId);
+        timeoutId = lastArgs = lastThis = lastCallTime = undefined;
+        lastInvokeTime = 0;
+        next?.resolve(lastInvocation ?? (undefined as Result));
+        next = null;
     };
 
+    debounced.flush = () => {
+        if (timeoutId === undefined) return;
+        clock.clearTimeout(timeoutId);
+        trailingEdge(clock.now());
+    };
+
+    debounced.pending = () => timeoutId !== undefined;
+
     return debounced;
 }
 
@@ -57,20 +177,26 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
  * Limits how often a function can be executed.
  * @param fn The function to throttle
  * @param limit The time to wait in milliseconds
+ * @param options The clock to time the limit with
  * @example
  * const logScroll = throttle(() => console.log('Scroll position:', window.scrollY), 200);
  * // Even if the browser fires 100 scroll events per second,
  * // this function will only execute once every 200ms.
  * window.addEventListener('scroll', logScroll);
  */
-export function throttle<T extends (...args: unknown[]) => unknown>(fn: T, limit: number): (...args: Parameters<T>) => void {
+export function throttle<T extends (...args: unknown[]) => unknown>(
+    fn: T,
+    limit: number,
+    options: ClockOptions = {}
+): (...args: Parameters<T>) => void {
+    const { clock = realClock } = options;
     let inThrottle = false;
 
     return function (this: unknown, ...args: Parameters<T>) {
         if (!inThrottle) {
             fn.apply(this, args);
             inThrottle = true;
-            setTimeout(() => (inThrottle = false), limit);
+            clock.setTimeout(() => (inThrottle = false), limit);
         }
     };
 }
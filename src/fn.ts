@@ -1,3 +1,5 @@
+import { realClock, type Clock } from "./Clock.js";
+
 export interface MemoizedFunction<T extends (...args: any[]) => any> {
     (...args: Parameters<T>): ReturnType<T>;
     /** Clears the cache. */
@@ -38,14 +40,16 @@ export function memoize<T extends (...args: any[]) => any>(
         resolver?: (...args: Parameters<T>) => string;
         /** The time to wait in milliseconds before expiring a cache entry. */
         maxAge?: number;
+        /** The clock to age cache entries with. [default: realClock] */
+        clock?: Clock;
     } = {}
 ): MemoizedFunction<T> {
     const cache = new Map<string, { value: any; timestamp: number }>();
-    const { resolver, maxAge } = options;
+    const { resolver, maxAge, clock = realClock } = options;
 
     const memoized = function (this: any, ...args: Parameters<T>) {
         const key = resolver ? resolver(...args) : JSON.stringify(args);
-        const now = Date.now();
+        const now = clock.now();
         const entry = cache.get(key);
 
         // Check if we have a valid (unexpired) entry
@@ -1,5 +1,7 @@
-export interface FormatDurationOptions {
-    /** The reference timestamp to calculate from. Defaults to Date.now() */
+import { realClock, type ClockOptions } from "./Clock.js";
+
+export interface FormatDurationOptions extends ClockOptions {
+    /** The reference timestamp to calculate from. Defaults to the current time */
     since?: number | Date;
     /** If true, returns null if the target time is in the past. */
     nullIfPast?: boolean;
@@ -121,7 +123,10 @@ export function formatDuration(
     options: FormatDurationOptions = {}
 ): string | null {
     const targetMs = target instanceof Date ? target.getTime() : Number(target);
-    const sinceMs = options.since instanceof Date ? options.since.getTime() : Number(options.since) || Date.now();
+    const sinceMs =
+        options.since instanceof Date
+            ? options.since.getTime()
+            : Number(options.since) || (options.clock ?? realClock).now();
     const diff = Math.abs(targetMs - sinceMs);
 
     if (diff === 0) return style === "digital" ? "00:00" : "now";
@@ -159,10 +164,11 @@ export function formatDuration(
  * Formats a date or timestamp into a human-readable relative string (e.g., "3 days ago").
  * @param date - The Date object or timestamp to compare
  * @param locale - The BCP 47 language tag
+ * @param options - The clock to read the current time from
  */
-export function formatETA(date: Date | number, locale?: Intl.LocalesArgument): string {
+export function formatETA(date: Date | number, locale?: Intl.LocalesArgument, options: ClockOptions = {}): string {
     const rtf = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
-    const elapsed = (typeof date === "number" ? date : date.getTime()) - Date.now();
+    const elapsed = (typeof date === "number" ? date : date.getTime()) - (options.clock ?? realClock).now();
 
     // Division factors for different units
     const units: { unit: Intl.RelativeTimeFormatUnit; ms: number }[] = [
@@ -1,9 +1,16 @@
 export * from "./Cache.js";
+export * from "./Clock.js";
+export * from "./EncryptedAdapter.js";
 export * from "./Loop.js";
 export * from "./Pipe.js";
+export * from "./RateLimiter.js";
+export * from "./Scheduler.js";
 export * from "./Storage.js";
+export * from "./StorageAdapter.js";
+export * from "./TaskQueue.js";
 export * from "./array.js";
 export * from "./async.js";
+export * from "./cron.js";
 export * from "./date.js";
 export * from "./exec.js";
 export * from "./fn.js";
@@ -1,3 +1,5 @@
+import { realClock, type ClockOptions } from "./Clock.js";
+
 /**
  * Checks if a value is defined (not null or undefined).
  * @param val The value to check
@@ -68,9 +70,10 @@ export function isSortedArray<T>(arr: T[], comparator?: (a: T, b: T) => number):
 /**
  * Checks if a date is today.
  * @param date The date to check
+ * @param options The clock to read today's date from
  */
-export function isToday(date: number | Date): boolean {
+export function isToday(date: number | Date, options: ClockOptions = {}): boolean {
     const d = date instanceof Date ? date : new Date(date);
-    const today = new Date();
+    const today = new Date((options.clock ?? realClock).now());
     return d.getDate() === today.getDate() && d.getMonth() === today.getMonth() && d.getFullYear() === today.getFullYear();
 }